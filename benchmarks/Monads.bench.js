@@ -0,0 +1,153 @@
+/**
+ * Compares creating and chaining Options and Results against the previous implementation, which built a new object
+ * literal with every method for each Option and Result. Run with `npm run bench` after building.
+ */
+const { Err, None, Ok, Some } = require('../dist/cjs');
+
+const ITERATIONS = 100000;
+
+const time = (label, fn) => {
+	const start = process.hrtime.bigint();
+	fn();
+	const elapsed = Number(process.hrtime.bigint() - start) / 1e6;
+
+	console.log(`  ${label.padEnd(36)} ${elapsed.toFixed(2).padStart(10)}ms`);
+};
+
+// The previous implementation of Option, which allocated every method for each Option.
+const createLegacyOption = obj => ({
+	...obj,
+	isSome() { return this.type === 'some'; },
+	isNone() { return this.type === 'none'; },
+	map(mapper) { return this.type === 'some' ? LegacySome(mapper(this.data)) : this; },
+	andThen(chainer) { return this.type === 'some' ? chainer(this.data) : this; },
+	orElse(chainer) { return this.type === 'none' ? chainer() : this; },
+	unwrap() {
+		if (this.type === 'some') return this.data;
+
+		throw new Error('Attempted to unwrap data from None!');
+	},
+	inspect(fn) {
+		if (this.type === 'some') fn(this.data);
+
+		return this;
+	},
+	okOr(error) { return this.type === 'some' ? LegacyOk(this.data) : LegacyErr(error); },
+	match(matcher) { return this.type === 'some' ? matcher.Some(this.data) : matcher.None(); },
+	caseOf(cases) { return this.type === 'some' ? cases.Some(this.data) : cases.None(); },
+	equals(other, dataEquals = Object.is) {
+		if (this.type === 'some' && other.type === 'some') return dataEquals(this.data, other.data);
+
+		return this.type === 'none' && other.type === 'none';
+	},
+	toJSON() { return this.type === 'some' ? { type: 'some', data: this.data } : { type: 'none' }; },
+	*[Symbol.iterator]() {
+		if (this.type === 'some') return this.data;
+
+		yield this;
+	}
+});
+
+// The previous implementation of Result, which allocated every method for each Result.
+const createLegacyResult = obj => ({
+	...obj,
+	isOk() { return this.type === 'ok'; },
+	isErr() { return this.type === 'err'; },
+	map(mapper) { return this.type === 'ok' ? LegacyOk(mapper(this.data)) : this; },
+	mapErr(mapper) { return this.type === 'err' ? LegacyErr(mapper(this.error)) : this; },
+	andThen(chainer) { return this.type === 'ok' ? chainer(this.data) : this; },
+	orElse(chainer) { return this.type === 'err' ? chainer(this.error) : this; },
+	unwrap() {
+		if (this.type === 'ok') return this.data;
+
+		throw new Error('Attempted to unwrap data of Err!');
+	},
+	unwrapErr() {
+		if (this.type === 'err') return this.error;
+
+		throw new Error('Attempted to unwrap error of Ok!');
+	},
+	inspect(fn) {
+		if (this.type === 'ok') fn(this.data);
+
+		return this;
+	},
+	inspectErr(fn) {
+		if (this.type === 'err') fn(this.error);
+
+		return this;
+	},
+	caseOf(cases) { return this.type === 'ok' ? cases.Ok(this.data) : cases.Err(this.error); },
+	equals(other, contentEquals = Object.is) {
+		if (this.type === 'ok' && other.type === 'ok') return contentEquals(this.data, other.data);
+		if (this.type === 'err' && other.type === 'err') return contentEquals(this.error, other.error);
+
+		return false;
+	},
+	toJSON() { return this.type === 'ok' ? { type: 'ok', data: this.data } : { type: 'err', error: this.error }; },
+	*[Symbol.iterator]() {
+		if (this.type === 'ok') return this.data;
+
+		yield this;
+	}
+});
+
+const LegacySome = data => createLegacyOption({ type: 'some', data });
+const LegacyNone = () => createLegacyOption({ type: 'none' });
+const LegacyOk = data => createLegacyResult({ type: 'ok', data });
+const LegacyErr = error => createLegacyResult({ type: 'err', error });
+
+const implementations = [
+	{ name: 'object literal', Some: LegacySome, None: LegacyNone, Ok: LegacyOk, Err: LegacyErr },
+	{ name: 'prototype', Some, None, Ok, Err }
+];
+
+// Results are accumulated so that the work cannot be optimised away.
+let sink = 0;
+
+for (const { name, Some, None, Ok, Err } of implementations) {
+	console.log(name);
+
+	time('Some / None create', () => {
+		for (let i = 0; i < ITERATIONS; i++) sink += (i % 2 === 0 ? Some(i) : None()).type.length;
+	});
+
+	time('Option map / andThen chain', () => {
+		for (let i = 0; i < ITERATIONS; i++) {
+			sink += Some(i)
+				.map(x => x + 1)
+				.andThen(x => x % 3 === 0 ? None() : Some(x * 2))
+				.map(x => x - 1)
+				.caseOf({ Some: x => x, None: () => 0 });
+		}
+	});
+
+	time('Ok / Err create', () => {
+		for (let i = 0; i < ITERATIONS; i++) sink += (i % 2 === 0 ? Ok(i) : Err(i)).type.length;
+	});
+
+	time('Result map / mapErr / andThen chain', () => {
+		for (let i = 0; i < ITERATIONS; i++) {
+			sink += Ok(i)
+				.map(x => x + 1)
+				.andThen(x => x % 3 === 0 ? Err(x) : Ok(x * 2))
+				.mapErr(x => -x)
+				.caseOf({ Ok: x => x, Err: x => x });
+		}
+	});
+
+	time('Result yield*', () => {
+		for (let i = 0; i < ITERATIONS / 10; i++) {
+			const generator = (function* () {
+				const a = yield* Ok(i);
+				const b = yield* Ok(a + 1);
+
+				return Ok(a + b);
+			})();
+
+			sink += generator.next().value.unwrap();
+		}
+	});
+}
+
+console.log(`(checksum ${sink})`);
@@ -0,0 +1,58 @@
+/**
+ * Compares building and reading a SafeMap against the previous implementation, which copied the entire Map on every
+ * update. Run with `npm run bench` after building.
+ */
+const { createSafeMap } = require('../dist/cjs');
+
+const time = (label, fn) => {
+	const start = process.hrtime.bigint();
+	fn();
+	const elapsed = Number(process.hrtime.bigint() - start) / 1e6;
+
+	console.log(`  ${label.padEnd(36)} ${elapsed.toFixed(2).padStart(10)}ms`);
+};
+
+// The previous implementation of SafeMap#set, which cloned the underlying Map.
+const copyOnWriteSet = (map, key, value) => {
+	const cloned = new Map(map);
+	cloned.set(key, value);
+
+	return cloned;
+};
+
+for (const size of [1000, 5000, 20000]) {
+	console.log(`${size} entries`);
+
+	// Copying is quadratic, so the largest size would take far too long to be worth measuring.
+	if (size <= 5000) {
+		time('Map copy-on-write set', () => {
+			let map = new Map();
+			for (let i = 0; i < size; i++) map = copyOnWriteSet(map, `key${i}`, i);
+		});
+	}
+
+	let safeMap = createSafeMap();
+
+	time('SafeMap set', () => {
+		for (let i = 0; i < size; i++) safeMap = safeMap.set(`key${i}`, i);
+	});
+
+	time('SafeMap withMutations set', () => {
+		createSafeMap().withMutations(map => {
+			for (let i = 0; i < size; i++) map.set(`key${i}`, i);
+		});
+	});
+
+	time('SafeMap get', () => {
+		for (let i = 0; i < size; i++) safeMap.get(`key${i}`);
+	});
+
+	time('SafeMap entries', () => {
+		for (let i = 0; i < 10; i++) Array.from(safeMap.entries());
+	});
+
+	time('SafeMap delete', () => {
+		let map = safeMap;
+		for (let i = 0; i < size; i++) map = map.delete(`key${i}`);
+	});
+}
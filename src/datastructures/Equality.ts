@@ -0,0 +1,185 @@
+/**
+ * Determines how values are hashed and compared, e.g. as the keys of a {@link SafeMap} or the values of a
+ * {@link SafeSet}. Values that are equal MUST have the same hash.
+ */
+export type Equality<T> = {
+	hash: (value: T) => number,
+	equals: (a: T, b: T) => boolean
+};
+
+const combineHashes = (a: number, b: number) => (Math.imul(31, a) + b) | 0;
+
+const hashString = (value: string) => {
+	let hash = 0;
+
+	for (let i = 0; i < value.length; i++) {
+		hash = combineHashes(hash, value.charCodeAt(i));
+	}
+
+	return hash;
+};
+
+// Objects have no intrinsic hash, so each object is given an id the first time it is hashed.
+const objectIds = new WeakMap<object, number>();
+const symbolIds = new Map<symbol, number>();
+let nextId = 0;
+
+const idOf = <T>(ids: { get: (key: T) => number | undefined, set: (key: T, id: number) => unknown }, key: T) => {
+	const id = ids.get(key);
+
+	if (id !== undefined) return id;
+
+	ids.set(key, ++nextId);
+
+	return nextId;
+};
+
+/**
+ * Hashes the given value by identity, consistently with {@link sameValueZero}.
+ *
+ * @param value The value to be hashed.
+ */
+export const hashIdentity = (value: unknown): number => {
+	switch (typeof value) {
+		case 'number':
+			// -0 and 0 are equal, and both are integers hashed as 0.
+			return Number.isInteger(value) && value === (value | 0) ? value | 0 : hashString(String(value));
+		case 'string':
+			return hashString(value);
+		case 'boolean':
+			return value ? 1231 : 1237;
+		case 'bigint':
+			return hashString(`${value}n`);
+		case 'symbol':
+			return idOf(symbolIds, value);
+		case 'undefined':
+			return 0x2f2f2f2f;
+		case 'object':
+		case 'function':
+			return value === null ? 0x1f1f1f1f : idOf(objectIds, value as object);
+	}
+};
+
+/**
+ * Compares the given values like {@link Map} compares keys, where NaN is equal to NaN and -0 is equal to 0.
+ *
+ * @param a The first value.
+ * @param b The second value.
+ */
+export const sameValueZero = (a: unknown, b: unknown) => a === b || (a !== a && b !== b);
+
+type TaggedValue = { type: 'some', data: unknown } | { type: 'none' } | { type: 'ok', data: unknown } | { type: 'err', error: unknown };
+
+/**
+ * Returns whether the given value is an {@link Option} or {@link Result}, which are compared by their contents even
+ * though they are not plain objects. This cannot use {@link isOption} or {@link isResult}, as the monads depend on
+ * this module.
+ */
+const isTaggedValue = (value: object): value is TaggedValue => {
+	const { type, isSome, isOk } = value as { type?: unknown, isSome?: unknown, isOk?: unknown };
+
+	return (typeof isSome === 'function' && (type === 'some' || type === 'none'))
+		|| (typeof isOk === 'function' && (type === 'ok' || type === 'err'));
+};
+
+const isPlainObject = (value: object): value is Record<string, unknown> => {
+	const prototype = Object.getPrototypeOf(value);
+
+	return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Hashes the given value structurally, consistently with {@link structuralEquals}.
+ *
+ * @param value The value to be hashed.
+ */
+export const hashStructural = (value: unknown): number => {
+	if (typeof value !== 'object' || value === null) return hashIdentity(value);
+
+	if (Array.isArray(value)) {
+		return value.reduce<number>((hash, element) => combineHashes(hash, hashStructural(element)), 0x5b5d);
+	}
+
+	if (isTaggedValue(value)) {
+		return combineHashes(hashString(value.type), value.type === 'none' ? 0 : hashStructural(value.type === 'err' ? value.error : value.data));
+	}
+
+	if (isPlainObject(value)) {
+		// Properties are summed, so that objects with properties in different orders have the same hash.
+		return Object.keys(value).reduce((hash, key) => (hash + combineHashes(hashString(key), hashStructural(value[key]))) | 0, 0x7b7d);
+	}
+
+	return hashIdentity(value);
+};
+
+/**
+ * Compares the given values structurally. Arrays are equal if their elements are equal, plain objects are equal if
+ * they have the same properties with equal values, and {@link Option}s and {@link Result}s are equal if they are the
+ * same variant with equal contents. Every other value is compared with {@link sameValueZero}.
+ *
+ * NOTE: Values containing circular references are not supported.
+ *
+ * @param a The first value.
+ * @param b The second value.
+ */
+export const structuralEquals = (a: unknown, b: unknown): boolean => {
+	if (sameValueZero(a, b)) return true;
+	if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+
+	if (Array.isArray(a) || Array.isArray(b)) {
+		return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((element, index) => structuralEquals(element, b[index]));
+	}
+
+	if (isTaggedValue(a) || isTaggedValue(b)) {
+		if (!isTaggedValue(a) || !isTaggedValue(b) || a.type !== b.type) return false;
+		if (a.type === 'none') return true;
+
+		return a.type === 'err'
+			? structuralEquals(a.error, (b as { error: unknown }).error)
+			: structuralEquals(a.data, (b as { data: unknown }).data);
+	}
+
+	if (!isPlainObject(a) || !isPlainObject(b)) return false;
+
+	const keys = Object.keys(a);
+
+	return keys.length === Object.keys(b).length
+		&& keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && structuralEquals(a[key], b[key]));
+};
+
+const identity: Equality<unknown> = { hash: hashIdentity, equals: sameValueZero };
+
+const structural: Equality<unknown> = { hash: hashStructural, equals: structuralEquals };
+
+/**
+ * Built-in {@link Equality} strategies.
+ */
+export const Equality = {
+	/**
+	 * Compares values by identity, like the keys of a {@link Map}. This is the default for SafeMaps and SafeSets.
+	 */
+	identity,
+
+	/**
+	 * Compares values structurally; see {@link structuralEquals}.
+	 *
+	 * @example
+	 * const rooms = SafeMap.withEquality<[string, string], Room>(Equality.structural);
+	 * rooms.set(['user1', 'room1'], room).get(['user1', 'room1']); // Some(room)
+	 */
+	structural,
+
+	/**
+	 * Returns an Equality that compares values by the result of the given function, e.g. an id.
+	 *
+	 * @example
+	 * const users = SafeSet.withEquality(Equality.by((user: User) => user.id));
+	 *
+	 * @param project The function that will return what each value is compared by.
+	 * @param equality How the results of the given function are compared. Defaults to {@link Equality.structural}.
+	 */
+	by: <T, U>(project: (value: T) => U, equality: Equality<U> = structural): Equality<T> => ({
+		hash: value => equality.hash(project(value)),
+		equals: (a, b) => equality.equals(project(a), project(b))
+	})
+};
@@ -0,0 +1,289 @@
+import { Equality } from './Equality';
+
+/**
+ * Identifies the batch of mutations that created a node. Nodes may only be modified in place by the batch that owns
+ * them, which is how {@link SafeMap#withMutations} avoids copying nodes it has already copied.
+ */
+export type TrieOwner = object | undefined;
+
+export type TrieLeaf<K, V> = { type: 'leaf', hash: number, key: K, value: V, order: number };
+
+type TrieCollision<K, V> = { type: 'collision', hash: number, leaves: TrieLeaf<K, V>[], owner: TrieOwner };
+
+type TrieBranch<K, V> = { type: 'branch', bitmap: number, children: TrieNode<K, V>[], owner: TrieOwner };
+
+type TrieNode<K, V> = TrieLeaf<K, V> | TrieCollision<K, V> | TrieBranch<K, V>;
+
+/**
+ * A persistent hash array mapped trie. Every update returns a new HashTrie that shares all untouched nodes with the
+ * previous HashTrie, so updates only copy the O(log n) nodes along the path to the updated key.
+ *
+ * Each leaf records the order its key was first inserted in, so that entries can be iterated in insertion order like
+ * a {@link Map}. Deleted keys leave gaps in this order, so every key is renumbered once the gaps outnumber the keys.
+ */
+export type HashTrie<K, V> = {
+	root: TrieNode<K, V> | undefined,
+	size: number,
+	nextOrder: number,
+	hasher: Equality<K>
+};
+
+const BITS = 5;
+const MASK = (1 << BITS) - 1;
+
+// Orders are renumbered once there are more than this many orders per key, ignoring small HashTries.
+const MAX_GAP_RATIO = 2;
+const MIN_ORDERS = 32;
+
+const popCount = (bitmap: number) => {
+	let count = bitmap - ((bitmap >>> 1) & 0x55555555);
+	count = (count & 0x33333333) + ((count >>> 2) & 0x33333333);
+
+	return (((count + (count >>> 4)) & 0x0F0F0F0F) * 0x01010101) >>> 24;
+};
+
+export const emptyTrie = <K, V>(hasher: Equality<K> = Equality.identity): HashTrie<K, V> => ({ root: undefined, size: 0, nextOrder: 0, hasher });
+
+const isOwnedBy = (node: TrieCollision<unknown, unknown> | TrieBranch<unknown, unknown>, owner: TrieOwner) => owner !== undefined && node.owner === owner;
+
+const mergeLeaves = <K, V>(existing: TrieLeaf<K, V> | TrieCollision<K, V>, leaf: TrieLeaf<K, V>, shift: number, owner: TrieOwner): TrieNode<K, V> => {
+	if (existing.hash === leaf.hash) {
+		return { type: 'collision', hash: leaf.hash, leaves: existing.type === 'leaf' ? [existing, leaf] : [...existing.leaves, leaf], owner };
+	}
+
+	const existingIndex = (existing.hash >>> shift) & MASK;
+	const leafIndex = (leaf.hash >>> shift) & MASK;
+
+	if (existingIndex === leafIndex) {
+		return { type: 'branch', bitmap: 1 << leafIndex, children: [mergeLeaves(existing, leaf, shift + BITS, owner)], owner };
+	}
+
+	return {
+		type: 'branch',
+		bitmap: (1 << existingIndex) | (1 << leafIndex),
+		children: existingIndex < leafIndex ? [existing, leaf] : [leaf, existing],
+		owner
+	};
+};
+
+type Change = { added: boolean, removed: boolean };
+
+const setNode = <K, V>(node: TrieNode<K, V> | undefined, shift: number, leaf: TrieLeaf<K, V>, hasher: Equality<K>, owner: TrieOwner, change: Change): TrieNode<K, V> => {
+	if (!node) {
+		change.added = true;
+		return leaf;
+	}
+
+	switch (node.type) {
+		case 'leaf': {
+			if (node.hash !== leaf.hash || !hasher.equals(node.key, leaf.key)) {
+				change.added = true;
+				return mergeLeaves(node, leaf, shift, owner);
+			}
+
+			// Existing keys keep their original position, like a Map.
+			return node.value === leaf.value ? node : { ...leaf, key: node.key, order: node.order };
+		}
+		case 'collision': {
+			if (node.hash !== leaf.hash) {
+				change.added = true;
+				return mergeLeaves(node, leaf, shift, owner);
+			}
+
+			const index = node.leaves.findIndex(existing => hasher.equals(existing.key, leaf.key));
+			const existing = node.leaves[index];
+
+			if (existing && existing.value === leaf.value) return node;
+
+			const updated = existing ? { ...leaf, key: existing.key, order: existing.order } : leaf;
+			const leaves = isOwnedBy(node, owner) ? node.leaves : node.leaves.slice();
+
+			if (existing) {
+				leaves[index] = updated;
+			} else {
+				change.added = true;
+				leaves.push(updated);
+			}
+
+			return isOwnedBy(node, owner) ? node : { type: 'collision', hash: node.hash, leaves, owner };
+		}
+		case 'branch': {
+			const bit = 1 << ((leaf.hash >>> shift) & MASK);
+			const index = popCount(node.bitmap & (bit - 1));
+			const isOwned = isOwnedBy(node, owner);
+
+			if ((node.bitmap & bit) === 0) {
+				change.added = true;
+
+				const children = isOwned ? node.children : node.children.slice();
+				children.splice(index, 0, leaf);
+
+				if (!isOwned) return { type: 'branch', bitmap: node.bitmap | bit, children, owner };
+
+				node.bitmap |= bit;
+				return node;
+			}
+
+			const child = node.children[index] as TrieNode<K, V>;
+			const updated = setNode(child, shift + BITS, leaf, hasher, owner, change);
+
+			if (updated === child) return node;
+
+			const children = isOwned ? node.children : node.children.slice();
+			children[index] = updated;
+
+			return isOwned ? node : { type: 'branch', bitmap: node.bitmap, children, owner };
+		}
+	}
+};
+
+const removeNode = <K, V>(node: TrieNode<K, V> | undefined, shift: number, hash: number, key: K, hasher: Equality<K>, owner: TrieOwner, change: Change): TrieNode<K, V> | undefined => {
+	if (!node) return node;
+
+	switch (node.type) {
+		case 'leaf': {
+			if (node.hash !== hash || !hasher.equals(node.key, key)) return node;
+
+			change.removed = true;
+			return undefined;
+		}
+		case 'collision': {
+			const index = node.hash === hash ? node.leaves.findIndex(existing => hasher.equals(existing.key, key)) : -1;
+
+			if (index === -1) return node;
+
+			change.removed = true;
+
+			const leaves = node.leaves.filter((_, i) => i !== index);
+
+			return leaves.length === 1 ? leaves[0] : { type: 'collision', hash, leaves, owner };
+		}
+		case 'branch': {
+			const bit = 1 << ((hash >>> shift) & MASK);
+
+			if ((node.bitmap & bit) === 0) return node;
+
+			const index = popCount(node.bitmap & (bit - 1));
+			const child = node.children[index] as TrieNode<K, V>;
+			const updated = removeNode(child, shift + BITS, hash, key, hasher, owner, change);
+
+			if (updated === child) return node;
+
+			const isOwned = isOwnedBy(node, owner);
+			const children = isOwned ? node.children : node.children.slice();
+			const bitmap = updated ? node.bitmap : node.bitmap & ~bit;
+
+			if (updated) {
+				children[index] = updated;
+			} else {
+				children.splice(index, 1);
+			}
+
+			// A branch left with a single leaf is no longer needed, as leaves can be found at any depth.
+			const [only] = children;
+
+			if (children.length === 0) return undefined;
+			if (children.length === 1 && only && only.type !== 'branch') return only;
+			if (!isOwned) return { type: 'branch', bitmap, children, owner };
+
+			node.bitmap = bitmap;
+			return node;
+		}
+	}
+};
+
+/**
+ * Returns the leaf of the given key, or undefined if the key is not present.
+ */
+export const trieGet = <K, V>(trie: HashTrie<K, V>, key: K): TrieLeaf<K, V> | undefined => {
+	const hash = trie.hasher.hash(key);
+	let node = trie.root;
+	let shift = 0;
+
+	while (node) {
+		switch (node.type) {
+			case 'leaf':
+				return node.hash === hash && trie.hasher.equals(node.key, key) ? node : undefined;
+			case 'collision':
+				return node.hash === hash ? node.leaves.find(leaf => trie.hasher.equals(leaf.key, key)) : undefined;
+			case 'branch': {
+				const bit = 1 << ((hash >>> shift) & MASK);
+
+				if ((node.bitmap & bit) === 0) return undefined;
+
+				node = node.children[popCount(node.bitmap & (bit - 1))];
+				shift += BITS;
+			}
+		}
+	}
+
+	return undefined;
+};
+
+/**
+ * Returns a HashTrie with the given value assigned to the given key. If an owner is given, nodes owned by it will be
+ * modified in place rather than copied.
+ */
+export const trieSet = <K, V>(trie: HashTrie<K, V>, key: K, value: V, owner?: TrieOwner): HashTrie<K, V> => {
+	const change: Change = { added: false, removed: false };
+	const leaf: TrieLeaf<K, V> = { type: 'leaf', hash: trie.hasher.hash(key), key, value, order: trie.nextOrder };
+	const root = setNode(trie.root, 0, leaf, trie.hasher, owner, change);
+
+	if (root === trie.root && !change.added) return trie;
+
+	const updated = {
+		root,
+		size: change.added ? trie.size + 1 : trie.size,
+		nextOrder: change.added ? trie.nextOrder + 1 : trie.nextOrder,
+		hasher: trie.hasher
+	};
+
+	return updated.nextOrder > MAX_GAP_RATIO * updated.size + MIN_ORDERS ? renumber(updated) : updated;
+};
+
+/**
+ * Returns a HashTrie without the given key. If an owner is given, nodes owned by it will be modified in place rather
+ * than copied.
+ */
+export const trieDelete = <K, V>(trie: HashTrie<K, V>, key: K, owner?: TrieOwner): HashTrie<K, V> => {
+	const change: Change = { added: false, removed: false };
+	const root = removeNode(trie.root, 0, trie.hasher.hash(key), key, trie.hasher, owner, change);
+
+	if (!change.removed) return trie;
+
+	return { root, size: trie.size - 1, nextOrder: trie.nextOrder, hasher: trie.hasher };
+};
+
+/**
+ * Returns every leaf of the given HashTrie, in the order their keys were first inserted. As each order is unique and
+ * less than {@link HashTrie#nextOrder}, leaves are placed directly at their order rather than sorted.
+ */
+export const trieLeaves = <K, V>(trie: HashTrie<K, V>): TrieLeaf<K, V>[] => {
+	const slots = new Array<TrieLeaf<K, V> | undefined>(trie.nextOrder);
+	const stack: TrieNode<K, V>[] = trie.root ? [trie.root] : [];
+
+	for (let node = stack.pop(); node; node = stack.pop()) {
+		switch (node.type) {
+			case 'leaf':
+				slots[node.order] = node;
+				break;
+			case 'collision':
+				node.leaves.forEach(leaf => slots[leaf.order] = leaf);
+				break;
+			case 'branch':
+				stack.push(...node.children);
+				break;
+		}
+	}
+
+	return slots.filter((leaf): leaf is TrieLeaf<K, V> => leaf !== undefined);
+};
+
+/**
+ * Returns a HashTrie with the same entries as the given HashTrie, with their orders renumbered to remove any gaps.
+ */
+const renumber = <K, V>(trie: HashTrie<K, V>): HashTrie<K, V> => {
+	const owner: TrieOwner = {};
+
+	return trieLeaves(trie).reduce((renumbered, { key, value }) => trieSet(renumbered, key, value, owner), emptyTrie<K, V>(trie.hasher));
+};
\ No newline at end of file
@@ -1,5 +1,421 @@
-// TODO: Recreate arrays with safer APIs
-type SafeArray<T> = {
+import { None, Option, Some } from '../monads';
+import { createSafeMap, SafeMap } from './SafeMap';
+
+/**
+ * Represents an {@link Array} with safer API, in addition to being immutable. Any mutation will generate new
+ * SafeArrays rather than modifying the current SafeArray in place, and any lookup that may fail will return an
+ * {@link Option} rather than silently returning undefined.
+ *
+ * This wraps Array and delegates operation to it beyond the higher level safer constructs.
+ */
+export type SafeArray<T> = {
+	/**
+	 * The internal {@link Array} that will be used to store / retrieve data from.
+	 *
+	 * THIS SHOULD NOT BE ACCESSED OUTSIDE OF LIBRARIES.
+	 */
 	_array: T[],
 
-};
\ No newline at end of file
+	/**
+	 * The amount of elements in this SafeArray.
+	 */
+	length: number,
+
+	/**
+	 * Returns the element at the given index, or None if the index is out of bounds. Negative indices count back
+	 * from the end of this SafeArray, e.g. -1 is the last element.
+	 *
+	 * @param index The index of the element to retrieve.
+	 */
+	at: (index: number) => Option<T>,
+
+	/**
+	 * Returns the first element of this SafeArray, or None if it is empty.
+	 */
+	first: () => Option<T>,
+
+	/**
+	 * Returns the last element of this SafeArray, or None if it is empty.
+	 */
+	last: () => Option<T>,
+
+	/**
+	 * Returns whether this SafeArray contains no elements.
+	 */
+	isEmpty: () => boolean,
+
+	/**
+	 * Returns the first element that satisfies the given predicate, or None if no element does.
+	 *
+	 * @param predicate The function each element will be tested against.
+	 */
+	find: {
+		<S extends T>(predicate: (value: T, index: number) => value is S): Option<S>,
+		(predicate: (value: T, index: number) => boolean): Option<T>
+	},
+
+	/**
+	 * Returns the index of the first element that satisfies the given predicate, or None if no element does.
+	 *
+	 * @param predicate The function each element will be tested against.
+	 */
+	findIndex: (predicate: (value: T, index: number) => boolean) => Option<number>,
+
+	/**
+	 * Returns the index of the first element strictly equal to the given value, or None if it is not present.
+	 *
+	 * @param value The value to search for.
+	 */
+	indexOf: (value: T) => Option<number>,
+
+	/**
+	 * Returns whether this SafeArray contains an element strictly equal to the given value.
+	 *
+	 * @param value The value to search for.
+	 */
+	includes: (value: T) => boolean,
+
+	/**
+	 * Returns whether at least one element satisfies the given predicate.
+	 *
+	 * @param predicate The function each element will be tested against.
+	 */
+	some: (predicate: (value: T, index: number) => boolean) => boolean,
+
+	/**
+	 * Returns whether every element satisfies the given predicate.
+	 *
+	 * @param predicate The function each element will be tested against.
+	 */
+	every: (predicate: (value: T, index: number) => boolean) => boolean,
+
+	/**
+	 * Reduces this SafeArray into a single value. If no initial value is given, the first element will be used as the
+	 * initial value, and None will be returned if this SafeArray is empty.
+	 *
+	 * @param reducer The function used to combine the accumulator with each element.
+	 * @param initial The initial value of the accumulator.
+	 */
+	reduce: {
+		(reducer: (accumulator: T, value: T, index: number) => T): Option<T>,
+		<U>(reducer: (accumulator: U, value: T, index: number) => U, initial: U): U
+	},
+
+	/**
+	 * Returns a new SafeArray with the given values appended to the end.
+	 *
+	 * NOTE: This does not alter the existing SafeArray!
+	 *
+	 * @param values The values to be appended.
+	 */
+	push: (...values: T[]) => SafeArray<T>,
+
+	/**
+	 * Returns a new SafeArray with the given value inserted at the given index, shifting subsequent elements along.
+	 * If the index is outside the range 0 to {@link SafeArray#length} (inclusive), the SafeArray is returned unchanged.
+	 *
+	 * NOTE: This does not alter the existing SafeArray!
+	 *
+	 * @param index The index the value should be inserted at.
+	 * @param value The value to be inserted.
+	 */
+	insert: (index: number, value: T) => SafeArray<T>,
+
+	/**
+	 * Returns a new SafeArray with the element at the given index removed. If the index is out of bounds, the
+	 * SafeArray is returned unchanged.
+	 *
+	 * NOTE: This does not alter the existing SafeArray!
+	 *
+	 * @param index The index of the element to remove.
+	 */
+	removeAt: (index: number) => SafeArray<T>,
+
+	/**
+	 * Returns a new SafeArray with the element at the given index replaced by the result of the given function. If the
+	 * index is out of bounds, the SafeArray is returned unchanged.
+	 *
+	 * NOTE: This does not alter the existing SafeArray!
+	 *
+	 * @param index The index of the element to update.
+	 * @param updater The function that will be given the existing element and return its replacement.
+	 */
+	update: (index: number, updater: (value: T) => T) => SafeArray<T>,
+
+	/**
+	 * Returns a new SafeArray with its elements sorted. See {@link Array#sort} for further information.
+	 *
+	 * NOTE: This does not alter the existing SafeArray!
+	 *
+	 * @param compareFn The function used to determine the order of elements.
+	 */
+	sort: (compareFn?: (a: T, b: T) => number) => SafeArray<T>,
+
+	/**
+	 * Returns a new SafeArray with its elements in reverse order.
+	 *
+	 * NOTE: This does not alter the existing SafeArray!
+	 */
+	reverse: () => SafeArray<T>,
+
+	/**
+	 * Returns a new SafeArray containing a section of this SafeArray. See {@link Array#slice} for further information.
+	 *
+	 * @param start The index to begin the section from.
+	 * @param end The index to end the section at (exclusive).
+	 */
+	slice: (start?: number, end?: number) => SafeArray<T>,
+
+	/**
+	 * Returns a new SafeArray with each element mapped by the given function.
+	 *
+	 * @param mapper The mapping function to use.
+	 */
+	map: <U>(mapper: (value: T, index: number) => U) => SafeArray<U>,
+
+	/**
+	 * Returns a new SafeArray containing only the elements that satisfy the given predicate.
+	 *
+	 * @param predicate The function each element will be tested against.
+	 */
+	filter: {
+		<S extends T>(predicate: (value: T, index: number) => value is S): SafeArray<S>,
+		(predicate: (value: T, index: number) => boolean): SafeArray<T>
+	},
+
+	/**
+	 * Maps each element into a collection of values, returning a new SafeArray of every value flattened together.
+	 *
+	 * @param mapper The function that will map each element into a SafeArray or array.
+	 */
+	flatMap: <U>(mapper: (value: T, index: number) => SafeArray<U> | readonly U[]) => SafeArray<U>,
+
+	/**
+	 * Returns a new SafeArray pairing each element with the element at the same index in the given collection. The
+	 * resulting SafeArray is as long as the shorter of the two.
+	 *
+	 * @param other The collection to pair elements with.
+	 */
+	zip: <U>(other: SafeArray<U> | readonly U[]) => SafeArray<[T, U]>,
+
+	/**
+	 * Splits this SafeArray into SafeArrays of the given size. The last chunk will contain the remaining elements if
+	 * they do not divide evenly. Sizes below 1 are treated as 1.
+	 *
+	 * @param size The amount of elements in each chunk.
+	 */
+	chunk: (size: number) => SafeArray<SafeArray<T>>,
+
+	/**
+	 * Groups the elements of this SafeArray by the key returned from the given function, returning a {@link SafeMap}
+	 * of each key to the SafeArray of elements that produced it. Elements keep their relative order.
+	 *
+	 * @param keyFn The function that will determine the group of each element.
+	 */
+	groupBy: <K>(keyFn: (value: T, index: number) => K) => SafeMap<K, SafeArray<T>>,
+
+	/**
+	 * Calls the given function over every element in this SafeArray.
+	 *
+	 * @param fn The function to be called with each element.
+	 */
+	forEach: (fn: (value: T, index: number) => void) => SafeArray<T>,
+
+	/**
+	 * Returns an iterator of every index / element pair in this SafeArray. See {@link Array#entries} for further
+	 * information.
+	 */
+	entries: () => IterableIterator<[number, T]>,
+
+	/**
+	 * Returns an iterator of every element in this SafeArray. See {@link Array#values} for further information.
+	 */
+	values: () => IterableIterator<T>,
+
+	/**
+	 * Returns a copy of this SafeArray as a regular {@link Array}. Modifying the returned array will not affect this
+	 * SafeArray.
+	 */
+	toArray: () => T[],
+
+	[Symbol.iterator]: () => IterableIterator<T>
+};
+
+/**
+ * Returns the non-negative index the given index refers to in an array of the given length, resolving negative indices
+ * from the end. The result may still be out of bounds.
+ */
+const resolveIndex = (index: number, length: number) => index < 0 ? length + index : index;
+
+const isInBounds = (index: number, length: number) => Number.isInteger(index) && index >= 0 && index < length;
+
+const toNativeArray = <T>(collection: SafeArray<T> | readonly T[]): readonly T[] =>
+	'_array' in collection ? collection._array : collection;
+
+/**
+ * Creates a new {@link SafeArray}, optionally populating with the given elements on creation.
+ *
+ * @param existingArray An existing collection of elements that should be used to populate this SafeArray.
+ */
+export const createSafeArray = <T>(existingArray?: Iterable<T>): SafeArray<T> => {
+	const array = Array.from(existingArray ?? []);
+
+	return {
+		_array: array,
+		length: array.length,
+		at(index) {
+			const resolved = resolveIndex(index, this._array.length);
+
+			return isInBounds(resolved, this._array.length) ? Some(this._array[resolved] as T) : None();
+		},
+		first() {
+			return this.at(0);
+		},
+		last() {
+			return this.at(-1);
+		},
+		isEmpty() {
+			return this._array.length === 0;
+		},
+		find(predicate: (value: T, index: number) => boolean) {
+			const index = this._array.findIndex((value, i) => predicate(value, i));
+
+			return index === -1 ? None<T>() : Some(this._array[index] as T);
+		},
+		findIndex(predicate) {
+			const index = this._array.findIndex((value, i) => predicate(value, i));
+
+			return index === -1 ? None() : Some(index);
+		},
+		indexOf(value) {
+			const index = this._array.indexOf(value);
+
+			return index === -1 ? None() : Some(index);
+		},
+		includes(value) {
+			return this._array.indexOf(value) !== -1;
+		},
+		some(predicate) {
+			return this._array.some((value, index) => predicate(value, index));
+		},
+		every(predicate) {
+			return this._array.every((value, index) => predicate(value, index));
+		},
+		reduce<U>(reducer: (accumulator: U, value: T, index: number) => U, ...initial: [U] | []) {
+			if (initial.length === 1) {
+				return this._array.reduce((accumulator, value, index) => reducer(accumulator, value, index), initial[0]);
+			}
+
+			return this.first().map(head => this._array
+				.slice(1)
+				.reduce((accumulator, value, index) => reducer(accumulator, value, index + 1), head as unknown as U));
+		},
+		push(...values) {
+			return createSafeArray([...this._array, ...values]);
+		},
+		insert(index, value) {
+			if (!isInBounds(index, this._array.length + 1)) return this;
+
+			const cloned = this._array.slice();
+			cloned.splice(index, 0, value);
+
+			return createSafeArray(cloned);
+		},
+		removeAt(index) {
+			if (!isInBounds(index, this._array.length)) return this;
+
+			const cloned = this._array.slice();
+			cloned.splice(index, 1);
+
+			return createSafeArray(cloned);
+		},
+		update(index, updater) {
+			if (!isInBounds(index, this._array.length)) return this;
+
+			const cloned = this._array.slice();
+			cloned[index] = updater(cloned[index] as T);
+
+			return createSafeArray(cloned);
+		},
+		sort(compareFn) {
+			return createSafeArray(this._array.slice().sort(compareFn));
+		},
+		reverse() {
+			return createSafeArray(this._array.slice().reverse());
+		},
+		slice(start, end) {
+			return createSafeArray(this._array.slice(start, end));
+		},
+		map(mapper) {
+			return createSafeArray(this._array.map((value, index) => mapper(value, index)));
+		},
+		filter(predicate: (value: T, index: number) => boolean) {
+			return createSafeArray(this._array.filter((value, index) => predicate(value, index)));
+		},
+		flatMap<U>(mapper: (value: T, index: number) => SafeArray<U> | readonly U[]) {
+			const flattened: U[] = [];
+
+			this._array.forEach((value, index) => flattened.push(...toNativeArray(mapper(value, index))));
+
+			return createSafeArray(flattened);
+		},
+		zip<U>(other: SafeArray<U> | readonly U[]) {
+			const otherArray = toNativeArray(other);
+			const length = Math.min(this._array.length, otherArray.length);
+			const zipped: [T, U][] = [];
+
+			for (let i = 0; i < length; i++) {
+				zipped.push([this._array[i] as T, otherArray[i] as U]);
+			}
+
+			return createSafeArray(zipped);
+		},
+		chunk(size) {
+			const chunkSize = Math.max(1, Math.floor(size));
+			const chunks: SafeArray<T>[] = [];
+
+			for (let i = 0; i < this._array.length; i += chunkSize) {
+				chunks.push(createSafeArray(this._array.slice(i, i + chunkSize)));
+			}
+
+			return createSafeArray(chunks);
+		},
+		groupBy<K>(keyFn: (value: T, index: number) => K) {
+			const groups = new Map<K, T[]>();
+
+			this._array.forEach((value, index) => {
+				const key = keyFn(value, index);
+				const group = groups.get(key);
+
+				if (group) {
+					group.push(value);
+				} else {
+					groups.set(key, [value]);
+				}
+			});
+
+			const safeGroups = new Map<K, SafeArray<T>>();
+			groups.forEach((group, key) => safeGroups.set(key, createSafeArray(group)));
+
+			return createSafeMap(safeGroups);
+		},
+		forEach(fn) {
+			// Only the value and index are passed, so that the internal array can never be mutated through the callback.
+			this._array.forEach((value, index) => fn(value, index));
+
+			return this;
+		},
+		entries() {
+			return this._array.entries();
+		},
+		values() {
+			return this._array.values();
+		},
+		toArray() {
+			return this._array.slice();
+		},
+		[Symbol.iterator]() {
+			return this._array.values();
+		}
+	};
+};
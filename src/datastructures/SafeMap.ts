@@ -1,26 +1,79 @@
-import { intoOption, Option } from '../monads';
+import { intoOption, None, Option, Some } from '../monads';
+import { Equality, sameValueZero } from './Equality';
+import { emptyTrie, HashTrie, trieDelete, trieGet, trieLeaves, TrieOwner, trieSet } from './HashTrie';
+import { createSafeArray, SafeArray } from './SafeArray';
+
+/**
+ * A mutable view of a {@link SafeMap} that is only available within {@link SafeMap#withMutations}.
+ */
+export type MutableSafeMap<K, V> = {
+	/**
+	 * Returns the value at the given key, or None if no value, or a nullish value, is associated with the given key.
+	 *
+	 * @param key The key to retrieve the value from.
+	 */
+	get: (key: K) => Option<V>,
+
+	/**
+	 * Returns whether this map has a value associated with the given key.
+	 *
+	 * @param key The key to search with.
+	 */
+	has: (key: K) => boolean,
+
+	/**
+	 * Assigns the value to the given key IN PLACE.
+	 *
+	 * @param key The key to assign the value to.
+	 * @param value The value to be assigned.
+	 */
+	set: (key: K, value: V) => MutableSafeMap<K, V>,
+
+	/**
+	 * Deletes the given key IN PLACE.
+	 *
+	 * @param key The key to remove.
+	 */
+	delete: (key: K) => MutableSafeMap<K, V>
+};
 
 /**
  * Represents a {@link Map} with safer API, in addition to being immutable. Any mutation will generate new SafeMaps
  * rather than modifying the current SafeMap in place.
  *
- * This wraps Map and delegates operation to it beyond the higher level safer constructs.
+ * This is backed by a persistent hash array mapped trie, so new SafeMaps share most of their structure with the
+ * SafeMap they were created from, and updates take O(log n) time rather than copying every entry. Like a Map, keys
+ * are compared by identity by default, and entries are iterated in insertion order. To compare keys by value instead,
+ * see {@link SafeMap.withEquality}.
  */
 export type SafeMap<K, V> = {
 	/**
-	 * The internal {@link Map} that will be used to store / retrieve data from.
+	 * The internal {@link HashTrie} that will be used to store / retrieve data from.
 	 *
 	 * THIS SHOULD NOT BE ACCESSED OUTSIDE OF LIBRARIES.
 	 */
-	_map: Map<K, V>,
+	_trie: HashTrie<K, V>,
+
+	/**
+	 * The amount of entries in this SafeMap.
+	 */
+	size: number,
 
 	/**
-	 * Returns the value at the given key, or None if no value is associated with the given key.
+	 * Returns the value at the given key, or None if no value, or a nullish value, is associated with the given key.
 	 *
 	 * @param key The key to retrieve the value from.
 	 */
 	get: (key: K) => Option<V>,
 
+	/**
+	 * Returns the value at the given key, or the given fallback if no value is associated with the given key.
+	 *
+	 * @param key The key to retrieve the value from.
+	 * @param fallback The value to be returned if the key is not present.
+	 */
+	getOrElse: (key: K, fallback: V) => V,
+
 	/**
 	 * Returns whether this SafeMap has a value associated with the given key.
 	 *
@@ -54,6 +107,121 @@ export type SafeMap<K, V> = {
 	 */
 	delete: (key: K) => SafeMap<K, V>,
 
+	/**
+	 * Returns a new SafeMap where the value at the given key is replaced with the result of the given function, which
+	 * receives the current value, or None if the key is not present. Returning None will delete the key.
+	 *
+	 * NOTE: This does not alter the existing SafeMap!
+	 *
+	 * @example
+	 * // Decrements the count, deleting it once it reaches 0.
+	 * counts.update('a', count => count.map(n => n - 1).andThen(n => n > 0 ? Some(n) : None()));
+	 *
+	 * @param key The key to update.
+	 * @param updater The function that will produce the new value.
+	 */
+	update: (key: K, updater: (value: Option<V>) => Option<V>) => SafeMap<K, V>,
+
+	/**
+	 * Returns a new SafeMap where the value at the given key is replaced with the result of the given function, which
+	 * receives the current value, or None if the key is not present.
+	 *
+	 * NOTE: This does not alter the existing SafeMap!
+	 *
+	 * @example
+	 * counts.upsert('a', count => count.match({ Some: n => n + 1, None: () => 1 }));
+	 *
+	 * @param key The key to update or insert.
+	 * @param updater The function that will produce the new value.
+	 */
+	upsert: (key: K, updater: (value: Option<V>) => V) => SafeMap<K, V>,
+
+	/**
+	 * Returns a new SafeMap with every entry of this SafeMap and the given SafeMap, where values from the given SafeMap
+	 * replace the values of any keys present in both.
+	 *
+	 * NOTE: This does not alter the existing SafeMap!
+	 *
+	 * @param other The SafeMap to be merged into this SafeMap.
+	 */
+	merge: (other: SafeMap<K, V>) => SafeMap<K, V>,
+
+	/**
+	 * Returns a new SafeMap with every entry of this SafeMap and the given SafeMap, where the values of any keys
+	 * present in both are combined with the given function.
+	 *
+	 * NOTE: This does not alter the existing SafeMap!
+	 *
+	 * @param other The SafeMap to be merged into this SafeMap.
+	 * @param resolve The function that will combine the value of this SafeMap with the value of the given SafeMap.
+	 */
+	mergeWith: (other: SafeMap<K, V>, resolve: (existing: V, incoming: V, key: K) => V) => SafeMap<K, V>,
+
+	/**
+	 * Returns a new SafeMap with the same keys, where each value has been mapped with the given function.
+	 *
+	 * @param mapper The mapping function to use.
+	 */
+	mapValues: <U>(mapper: (value: V, key: K) => U) => SafeMap<K, U>,
+
+	/**
+	 * Returns a new SafeMap with only the entries that satisfy the given predicate.
+	 *
+	 * @param predicate The function each entry will be tested against.
+	 */
+	filter: {
+		<S extends V>(predicate: (value: V, key: K) => value is S): SafeMap<K, S>,
+		(predicate: (value: V, key: K) => boolean): SafeMap<K, V>
+	},
+
+	/**
+	 * Maps each value with the given function, returning a new SafeMap of the values that were mapped into Some.
+	 *
+	 * @param mapper The function that will map each value into an Option.
+	 */
+	filterMap: <U>(mapper: (value: V, key: K) => Option<U>) => SafeMap<K, U>,
+
+	/**
+	 * Splits this SafeMap into a SafeMap of the entries that satisfy the given predicate, and a SafeMap of the entries
+	 * that do not.
+	 *
+	 * @param predicate The function each entry will be tested against.
+	 */
+	partition: (predicate: (value: V, key: K) => boolean) => [SafeMap<K, V>, SafeMap<K, V>],
+
+	/**
+	 * Returns the first entry that satisfies the given predicate, or None if no entry does.
+	 *
+	 * @param predicate The function each entry will be tested against.
+	 */
+	findEntry: (predicate: (value: V, key: K) => boolean) => Option<[K, V]>,
+
+	/**
+	 * Returns whether this SafeMap has the same keys as the given SafeMap, and the same value for each key. Values are
+	 * compared like keys of a {@link Map} by default.
+	 *
+	 * @param other The SafeMap to be compared with.
+	 * @param valueEquals The function used to compare values.
+	 */
+	equals: (other: SafeMap<K, V>, valueEquals?: (a: V, b: V) => boolean) => boolean,
+
+	/**
+	 * Returns a new SafeMap with every change made by the given function, which receives a temporary mutable view of
+	 * this SafeMap. This is much faster than chaining many calls to {@link SafeMap#set} or {@link SafeMap#delete}, as
+	 * the nodes copied for the first change are reused for every following change.
+	 *
+	 * NOTE: This does not alter the existing SafeMap! The mutable view MUST NOT be used once the function returns,
+	 * and will throw an error if it is modified.
+	 *
+	 * @example
+	 * const users = createSafeMap<string, User>().withMutations(map => {
+	 *     fetchedUsers.forEach(user => map.set(user.id, user));
+	 * });
+	 *
+	 * @param fn The function that will make changes to the mutable view.
+	 */
+	withMutations: (fn: (map: MutableSafeMap<K, V>) => void) => SafeMap<K, V>,
+
 	/**
 	 * Returns an iterator that can be used to iterate over all entries in this SafeMap. See {@link Map#entries}
 	 * for further information.
@@ -71,53 +239,223 @@ export type SafeMap<K, V> = {
 	values: () => IterableIterator<V>,
 
 	/**
-	 * Calls the given function over every entry in this SafeMap. See {@link Map#forEach} for further information.
+	 * Returns a copy of every entry in this SafeMap, in insertion order.
+	 */
+	toArray: () => [K, V][],
+
+	/**
+	 * Returns the wire format of this SafeMap used by JSON.stringify, an array of every entry in insertion order, which
+	 * can be parsed back into a SafeMap with {@link safeMapSchema}.
+	 */
+	toJSON: () => [K, V][],
+
+	/**
+	 * Calls the given function over every entry in this SafeMap, in insertion order.
 	 *
-	 * @param fn
+	 * @param fn The function to be called with each entry.
 	 */
-	forEach: (fn: (value: V, key: K, map: Map<K, V>) => void) => SafeMap<K, V>
+	forEach: (fn: (value: V, key: K, map: SafeMap<K, V>) => void) => SafeMap<K, V>,
+
+	/**
+	 * Allows iterating over every entry in this SafeMap, e.g. with a for...of loop.
+	 */
+	[Symbol.iterator]: () => IterableIterator<[K, V]>
 };
 
-/**
- * Creates a new {@link SafeMap}, optionally populating with the given map on creation.
- *
- * @param existingMap An existing map that should be used to populate this SafeMap.
- */
-export const createSafeMap = <K, V>(existingMap?: Map<K, V>): SafeMap<K, V> => ({
-	_map: new Map<K, V>(existingMap ?? []),
+const fromTrie = <K, V>(trie: HashTrie<K, V>): SafeMap<K, V> => ({
+	_trie: trie,
+	size: trie.size,
 	get(key) {
-		return intoOption(this._map.get(key));
+		return intoOption(trieGet(this._trie, key)?.value);
+	},
+	getOrElse(key, fallback) {
+		const leaf = trieGet(this._trie, key);
+
+		return leaf ? leaf.value : fallback;
 	},
 	has(key) {
-		return this._map.has(key);
+		return trieGet(this._trie, key) !== undefined;
 	},
 	set(key, value) {
-		const clonedMap = new Map(this._map);
-		clonedMap.set(key, value);
+		const trie = trieSet(this._trie, key, value);
 
-		return createSafeMap(clonedMap);
+		return trie === this._trie ? this : fromTrie(trie);
 	},
 	clear() {
-		return createSafeMap();
+		return fromTrie(emptyTrie(this._trie.hasher));
 	},
 	delete(key) {
-		const clonedMap = new Map(this._map);
-		clonedMap.delete(key);
+		const trie = trieDelete(this._trie, key);
 
-		return createSafeMap(clonedMap);
+		return trie === this._trie ? this : fromTrie(trie);
+	},
+	update(key, updater) {
+		return updater(this.get(key)).match({
+			Some: value => this.set(key, value),
+			None: () => this.delete(key)
+		});
+	},
+	upsert(key, updater) {
+		return this.set(key, updater(this.get(key)));
+	},
+	merge(other) {
+		return this.mergeWith(other, (_, incoming) => incoming);
+	},
+	mergeWith(other, resolve) {
+		return this.withMutations(map => other.forEach((incoming, key) => map.set(key, map.get(key).match({
+			Some: existing => resolve(existing, incoming, key),
+			None: () => incoming
+		}))));
+	},
+	mapValues<U>(mapper: (value: V, key: K) => U) {
+		return buildSafeMap<K, U>(this._trie.hasher, map => this.forEach((value, key) => map.set(key, mapper(value, key))));
+	},
+	filter(predicate: (value: V, key: K) => boolean) {
+		return this.withMutations(map => this.forEach((value, key) => {
+			if (!predicate(value, key)) {
+				map.delete(key);
+			}
+		}));
+	},
+	filterMap<U>(mapper: (value: V, key: K) => Option<U>) {
+		return buildSafeMap<K, U>(this._trie.hasher, map => this.forEach((value, key) => mapper(value, key).inspect(mapped => map.set(key, mapped))));
+	},
+	partition(predicate) {
+		return [this.filter(predicate), this.filter((value, key) => !predicate(value, key))];
+	},
+	findEntry(predicate) {
+		const leaf = trieLeaves(this._trie).find(({ key, value }) => predicate(value, key));
+
+		return leaf ? Some<[K, V]>([leaf.key, leaf.value]) : None();
+	},
+	equals(other, valueEquals = sameValueZero) {
+		if (this === other) return true;
+		if (this.size !== other.size) return false;
+
+		// The other leaf is compared rather than SafeMap#get, so that keys assigned to nullish values are still present.
+		return trieLeaves(this._trie).every(({ key, value }) => {
+			const otherLeaf = trieGet(other._trie, key);
+
+			return otherLeaf !== undefined && valueEquals(value, otherLeaf.value);
+		});
+	},
+	withMutations(fn) {
+		// Nodes created with this owner may be modified in place, as no other SafeMap can reference them yet. Once fn
+		// returns, the SafeMap returned references them, so the mutable view can no longer be used.
+		const owner: TrieOwner = {};
+		let trie = this._trie;
+		let active = true;
+
+		const activeOwner = () => {
+			if (!active) throw new Error('Attempted to modify a SafeMap through withMutations after it returned!');
+
+			return owner;
+		};
+
+		const mutable: MutableSafeMap<K, V> = {
+			get: key => fromTrie(trie).get(key),
+			has: key => trieGet(trie, key) !== undefined,
+			set: (key, value) => {
+				trie = trieSet(trie, key, value, activeOwner());
+				return mutable;
+			},
+			delete: key => {
+				trie = trieDelete(trie, key, activeOwner());
+				return mutable;
+			}
+		};
+
+		try {
+			fn(mutable);
+		} finally {
+			active = false;
+		}
+
+		return trie === this._trie ? this : fromTrie(trie);
 	},
 	entries() {
-		return this._map.entries();
+		return this.toArray().values();
 	},
 	keys() {
-		return this._map.keys();
+		return trieLeaves(this._trie).map(({ key }) => key).values();
 	},
 	values() {
-		return this._map.values();
+		return trieLeaves(this._trie).map(({ value }) => value).values();
+	},
+	toArray() {
+		return trieLeaves(this._trie).map(({ key, value }): [K, V] => [key, value]);
+	},
+	toJSON() {
+		return this.toArray();
 	},
 	forEach(fn) {
-		this._map.forEach(fn);
+		trieLeaves(this._trie).forEach(({ key, value }) => fn(value, key, this));
 
 		return this;
+	},
+	[Symbol.iterator]() {
+		return this.entries();
+	}
+});
+
+const buildSafeMap = <K, V>(hasher: Equality<K>, fn: (map: MutableSafeMap<K, V>) => void) => fromTrie(emptyTrie<K, V>(hasher)).withMutations(fn);
+
+const isIterable = (value: object): value is Iterable<unknown> => typeof (value as Iterable<unknown>)[Symbol.iterator] === 'function';
+
+/**
+ * Creates a new {@link SafeMap}, optionally populating it on creation with the given entries, such as an existing
+ * {@link Map}, or the properties of the given object.
+ *
+ * @param existing The entries or object that should be used to populate this SafeMap.
+ */
+export const createSafeMap: {
+	<K, V>(existing?: Iterable<readonly [K, V]>): SafeMap<K, V>,
+	<V>(existing: Record<string, V>): SafeMap<string, V>
+} = <K, V>(existing?: Iterable<readonly [K, V]> | Record<string, V>) => buildSafeMap<K, V>(Equality.identity, map => {
+	if (!existing) return;
+
+	if (isIterable(existing)) {
+		for (const [key, value] of existing) {
+			map.set(key, value);
+		}
+	} else {
+		Object.keys(existing).forEach(key => map.set(key as unknown as K, existing[key] as V));
 	}
-});
\ No newline at end of file
+});
+
+/**
+ * Utilities that create {@link SafeMap}s.
+ */
+export const SafeMap = {
+	/**
+	 * Creates a new SafeMap that compares keys with the given {@link Equality} rather than by identity, optionally
+	 * populating it with the given entries on creation.
+	 *
+	 * @example
+	 * const members = SafeMap.withEquality<[string, string], Member>(Equality.structural)
+	 *     .set([userId, roomId], member);
+	 *
+	 * members.has([userId, roomId]); // true
+	 *
+	 * @param equality How keys will be hashed and compared.
+	 * @param entries The entries that should be used to populate this SafeMap.
+	 */
+	withEquality: <K, V>(equality: Equality<K>, entries: Iterable<readonly [K, V]> = []): SafeMap<K, V> => buildSafeMap<K, V>(equality, map => {
+		for (const [key, value] of entries) {
+			map.set(key, value);
+		}
+	}),
+
+	/**
+	 * Groups the given items by the key returned from the given function, returning a SafeMap of every key to a
+	 * {@link SafeArray} of its items, in their original order.
+	 *
+	 * @example
+	 * SafeMap.groupBy(users, user => user.role); // SafeMap { 'admin' => [...], 'member' => [...] }
+	 *
+	 * @param items The items to be grouped.
+	 * @param keyFn The function that will return the key of each item.
+	 */
+	groupBy: <T, K>(items: Iterable<T>, keyFn: (item: T, index: number) => K): SafeMap<K, SafeArray<T>> =>
+		createSafeArray(items).groupBy(keyFn)
+};
\ No newline at end of file
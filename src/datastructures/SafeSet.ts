@@ -0,0 +1,376 @@
+import { None, Option, Some } from '../monads';
+import { Equality } from './Equality';
+import { emptyTrie, HashTrie, trieDelete, trieGet, trieLeaves, TrieOwner, trieSet } from './HashTrie';
+import { createSafeArray, SafeArray } from './SafeArray';
+import { SafeMap } from './SafeMap';
+
+/**
+ * A mutable view of a {@link SafeSet} that is only available within {@link SafeSet#withMutations}.
+ */
+export type MutableSafeSet<T> = {
+	/**
+	 * Returns whether this set contains the given value.
+	 *
+	 * @param value The value to search for.
+	 */
+	has: (value: T) => boolean,
+
+	/**
+	 * Adds the given value IN PLACE.
+	 *
+	 * @param value The value to be added.
+	 */
+	add: (value: T) => MutableSafeSet<T>,
+
+	/**
+	 * Deletes the given value IN PLACE.
+	 *
+	 * @param value The value to be removed.
+	 */
+	delete: (value: T) => MutableSafeSet<T>
+};
+
+/**
+ * Represents a {@link Set} with safer API, in addition to being immutable. Any mutation will generate new SafeSets
+ * rather than modifying the current SafeSet in place.
+ *
+ * Like {@link SafeMap}, this is backed by a persistent hash array mapped trie, so new SafeSets share most of their
+ * structure with the SafeSet they were created from. Like a Set, values are compared by identity by default, and are
+ * iterated in insertion order. To compare values by value instead, see {@link SafeSet.withEquality}.
+ */
+export type SafeSet<T> = {
+	/**
+	 * The internal {@link HashTrie} that will be used to store / retrieve data from. Only the keys of the HashTrie
+	 * are used, which allows a SafeSet to share the HashTrie of a {@link SafeMap}.
+	 *
+	 * THIS SHOULD NOT BE ACCESSED OUTSIDE OF LIBRARIES.
+	 */
+	_trie: HashTrie<T, unknown>,
+
+	/**
+	 * The amount of values in this SafeSet.
+	 */
+	size: number,
+
+	/**
+	 * Returns whether this SafeSet contains the given value.
+	 *
+	 * @param value The value to search for.
+	 */
+	has: (value: T) => boolean,
+
+	/**
+	 * Returns whether this SafeSet contains no values.
+	 */
+	isEmpty: () => boolean,
+
+	/**
+	 * Returns a new SafeSet with the same contents and the given value.
+	 *
+	 * NOTE: This does not alter the existing SafeSet!
+	 *
+	 * @param value The value to be added.
+	 */
+	add: (value: T) => SafeSet<T>,
+
+	/**
+	 * Returns a new SafeSet with identical contents but without the given value.
+	 *
+	 * NOTE: This does not alter the existing SafeSet!
+	 *
+	 * @param value The value to be removed.
+	 */
+	delete: (value: T) => SafeSet<T>,
+
+	/**
+	 * Returns a new SafeSet with all content cleared.
+	 *
+	 * NOTE: This does not alter the existing SafeSet!
+	 */
+	clear: () => SafeSet<T>,
+
+	/**
+	 * Returns a new SafeSet with every change made by the given function, which receives a temporary mutable view of
+	 * this SafeSet. See {@link SafeMap#withMutations}.
+	 *
+	 * NOTE: This does not alter the existing SafeSet! The mutable view MUST NOT be used once the function returns,
+	 * and will throw an error if it is modified.
+	 *
+	 * @param fn The function that will make changes to the mutable view.
+	 */
+	withMutations: (fn: (set: MutableSafeSet<T>) => void) => SafeSet<T>,
+
+	/**
+	 * Returns a new SafeSet with every value of this SafeSet and the given SafeSet.
+	 *
+	 * @param other The SafeSet to be combined with.
+	 */
+	union: (other: SafeSet<T>) => SafeSet<T>,
+
+	/**
+	 * Returns a new SafeSet with only the values present in both this SafeSet and the given SafeSet.
+	 *
+	 * @param other The SafeSet to be compared with.
+	 */
+	intersection: (other: SafeSet<T>) => SafeSet<T>,
+
+	/**
+	 * Returns a new SafeSet with only the values of this SafeSet that are not present in the given SafeSet.
+	 *
+	 * @param other The SafeSet whose values will be removed.
+	 */
+	difference: (other: SafeSet<T>) => SafeSet<T>,
+
+	/**
+	 * Returns a new SafeSet with only the values present in exactly one of this SafeSet and the given SafeSet.
+	 *
+	 * @param other The SafeSet to be compared with.
+	 */
+	symmetricDifference: (other: SafeSet<T>) => SafeSet<T>,
+
+	/**
+	 * Returns whether every value of this SafeSet is present in the given SafeSet.
+	 *
+	 * @param other The SafeSet to be compared with.
+	 */
+	isSubsetOf: (other: SafeSet<T>) => boolean,
+
+	/**
+	 * Returns whether this SafeSet contains exactly the same values as the given SafeSet.
+	 *
+	 * @param other The SafeSet to be compared with.
+	 */
+	equals: (other: SafeSet<T>) => boolean,
+
+	/**
+	 * Returns a new SafeSet of every value mapped with the given function. Values that are mapped to the same value
+	 * will only be present once.
+	 *
+	 * @param mapper The mapping function to use.
+	 * @param equality How the mapped values will be compared. Defaults to {@link Equality.identity}.
+	 */
+	map: <U>(mapper: (value: T) => U, equality?: Equality<U>) => SafeSet<U>,
+
+	/**
+	 * Returns a new SafeSet with only the values that satisfy the given predicate.
+	 *
+	 * @param predicate The function each value will be tested against.
+	 */
+	filter: {
+		<S extends T>(predicate: (value: T) => value is S): SafeSet<S>,
+		(predicate: (value: T) => boolean): SafeSet<T>
+	},
+
+	/**
+	 * Splits this SafeSet into a SafeSet of the values that satisfy the given predicate, and a SafeSet of the values
+	 * that do not.
+	 *
+	 * @param predicate The function each value will be tested against.
+	 */
+	partition: (predicate: (value: T) => boolean) => [SafeSet<T>, SafeSet<T>],
+
+	/**
+	 * Returns the first value, in insertion order, that satisfies the given predicate, or None if no value does.
+	 *
+	 * @param predicate The function each value will be tested against.
+	 */
+	find: {
+		<S extends T>(predicate: (value: T) => value is S): Option<S>,
+		(predicate: (value: T) => boolean): Option<T>
+	},
+
+	/**
+	 * Returns the first value of this SafeSet in insertion order, or None if it is empty.
+	 */
+	first: () => Option<T>,
+
+	/**
+	 * Returns a new {@link SafeMap} with every value of this SafeSet as a key, mapped to the result of the given
+	 * function. The SafeMap will compare keys in the same way as this SafeSet.
+	 *
+	 * @param valueFn The function that will produce the value of each key.
+	 */
+	toSafeMap: <V>(valueFn: (value: T) => V) => SafeMap<T, V>,
+
+	/**
+	 * Returns a new {@link SafeArray} of every value of this SafeSet, in insertion order.
+	 */
+	toSafeArray: () => SafeArray<T>,
+
+	/**
+	 * Returns a copy of every value of this SafeSet, in insertion order.
+	 */
+	toArray: () => T[],
+
+	/**
+	 * Returns an iterator for all values in this SafeSet, in insertion order.
+	 */
+	values: () => IterableIterator<T>,
+
+	/**
+	 * Calls the given function over every value in this SafeSet, in insertion order.
+	 *
+	 * @param fn The function to be called with each value.
+	 */
+	forEach: (fn: (value: T, set: SafeSet<T>) => void) => SafeSet<T>,
+
+	/**
+	 * Allows iterating over every value in this SafeSet, e.g. with a for...of loop.
+	 */
+	[Symbol.iterator]: () => IterableIterator<T>
+};
+
+const fromTrie = <T>(trie: HashTrie<T, unknown>): SafeSet<T> => ({
+	_trie: trie,
+	size: trie.size,
+	has(value) {
+		return trieGet(this._trie, value) !== undefined;
+	},
+	isEmpty() {
+		return this.size === 0;
+	},
+	add(value) {
+		return this.has(value) ? this : fromTrie(trieSet(this._trie, value, true));
+	},
+	delete(value) {
+		const trie = trieDelete(this._trie, value);
+
+		return trie === this._trie ? this : fromTrie(trie);
+	},
+	clear() {
+		return fromTrie(emptyTrie(this._trie.hasher));
+	},
+	withMutations(fn) {
+		// Nodes created with this owner may be modified in place, as no other SafeSet can reference them yet. Once fn
+		// returns, the SafeSet returned references them, so the mutable view can no longer be used.
+		const owner: TrieOwner = {};
+		let trie = this._trie;
+		let active = true;
+
+		const activeOwner = () => {
+			if (!active) throw new Error('Attempted to modify a SafeSet through withMutations after it returned!');
+
+			return owner;
+		};
+
+		const mutable: MutableSafeSet<T> = {
+			has: value => trieGet(trie, value) !== undefined,
+			add: value => {
+				if (!mutable.has(value)) {
+					trie = trieSet(trie, value, true, activeOwner());
+				}
+
+				return mutable;
+			},
+			delete: value => {
+				trie = trieDelete(trie, value, activeOwner());
+				return mutable;
+			}
+		};
+
+		try {
+			fn(mutable);
+		} finally {
+			active = false;
+		}
+
+		return trie === this._trie ? this : fromTrie(trie);
+	},
+	union(other) {
+		return this.withMutations(set => other.forEach(value => set.add(value)));
+	},
+	intersection(other) {
+		return this.filter(value => other.has(value));
+	},
+	difference(other) {
+		return this.filter(value => !other.has(value));
+	},
+	symmetricDifference(other) {
+		return this.difference(other).union(other.difference(this));
+	},
+	isSubsetOf(other) {
+		return this.size <= other.size && this.toArray().every(value => other.has(value));
+	},
+	equals(other) {
+		return this === other || (this.size === other.size && this.isSubsetOf(other));
+	},
+	map<U>(mapper: (value: T) => U, equality: Equality<U> = Equality.identity) {
+		return SafeSet.withEquality(equality, this.toArray().map(mapper));
+	},
+	filter(predicate: (value: T) => boolean) {
+		return this.withMutations(set => this.forEach(value => {
+			if (!predicate(value)) {
+				set.delete(value);
+			}
+		}));
+	},
+	partition(predicate) {
+		return [this.filter(predicate), this.filter(value => !predicate(value))];
+	},
+	find(predicate: (value: T) => boolean) {
+		const leaf = trieLeaves(this._trie).find(({ key }) => predicate(key));
+
+		return leaf ? Some(leaf.key) : None<T>();
+	},
+	first() {
+		return this.find(() => true);
+	},
+	toSafeMap<V>(valueFn: (value: T) => V) {
+		return SafeMap.withEquality(this._trie.hasher, this.toArray().map((value): [T, V] => [value, valueFn(value)]));
+	},
+	toSafeArray() {
+		return createSafeArray(this.toArray());
+	},
+	toArray() {
+		return trieLeaves(this._trie).map(({ key }) => key);
+	},
+	values() {
+		return this.toArray().values();
+	},
+	forEach(fn) {
+		trieLeaves(this._trie).forEach(({ key }) => fn(key, this));
+
+		return this;
+	},
+	[Symbol.iterator]() {
+		return this.values();
+	}
+});
+
+/**
+ * Creates a new {@link SafeSet}, optionally populating it with the given values on creation, such as an existing
+ * {@link Set} or a {@link SafeArray}.
+ *
+ * @param existing The values that should be used to populate this SafeSet.
+ */
+export const createSafeSet = <T>(existing: Iterable<T> = []): SafeSet<T> => SafeSet.withEquality(Equality.identity, existing);
+
+/**
+ * Utilities that create {@link SafeSet}s.
+ */
+export const SafeSet = {
+	/**
+	 * Creates a new SafeSet that compares values with the given {@link Equality} rather than by identity, optionally
+	 * populating it with the given values on creation.
+	 *
+	 * @example
+	 * const points = SafeSet.withEquality(Equality.structural, [{ x: 1, y: 2 }]);
+	 * points.has({ x: 1, y: 2 }); // true
+	 *
+	 * @param equality How values will be hashed and compared.
+	 * @param values The values that should be used to populate this SafeSet.
+	 */
+	withEquality: <T>(equality: Equality<T>, values: Iterable<T> = []): SafeSet<T> => fromTrie(emptyTrie<T, unknown>(equality)).withMutations(set => {
+		for (const value of values) {
+			set.add(value);
+		}
+	}),
+
+	/**
+	 * Returns a SafeSet of every key of the given {@link SafeMap}. This takes constant time, as the SafeSet shares the
+	 * structure of the SafeMap.
+	 *
+	 * @param map The SafeMap whose keys will be used.
+	 */
+	fromKeys: <K>(map: SafeMap<K, unknown>): SafeSet<K> => fromTrie(map._trie)
+};
@@ -1 +1,4 @@
-export * from "./SafeMap";
\ No newline at end of file
+export * from "./Equality";
+export * from "./SafeArray";
+export * from "./SafeMap";
+export * from "./SafeSet";
\ No newline at end of file
@@ -1,31 +1,307 @@
-import { intoOption } from '../monads';
-import { Listener } from '../types';
+import { z, ZodError, ZodSchema } from 'zod';
+import { createSafeArray, SafeArray } from '../datastructures';
+import { effect, Err, intoOption, IO, Ok, Option, Result, stream, Stream } from '../monads';
+import type { Listener, NonEmptyArray } from '../types';
+import { parseWithSchema } from './SafeJSON';
+
+/**
+ * The element that will be selected by the given selector. Selectors that are only a tag name, such as 'input', are
+ * narrowed to the element of that tag, such as {@link HTMLInputElement}; every other selector selects an
+ * {@link Element}.
+ */
+export type SelectedElement<S extends string> =
+	S extends keyof HTMLElementTagNameMap ? HTMLElementTagNameMap[S]
+		: S extends keyof SVGElementTagNameMap ? SVGElementTagNameMap[S]
+			: Element;
+
+/**
+ * Returned by {@link as} when an element is not an instance of the expected class.
+ */
+export type UnexpectedElementError = { type: 'UNEXPECTED_ELEMENT', expected: string, element: Element };
 
 /**
  * Attempts to retrieve an element from the DOM based on the given selector, returning an {@link Option} based on
  * whether this was successful.
  *
+ * @example
+ * querySelector('input'); // Option<HTMLInputElement>
+ * querySelector('.row', table); // Option<Element>, searching only within table
+ *
  * @param selector The element to be selected.
+ * @param root The element, document or fragment to search within. Defaults to the global {@link document}.
  */
-export const querySelector = (selector: string) => intoOption(document.querySelector(selector));
+export const querySelector = <S extends string>(selector: S, root: ParentNode = document): Option<SelectedElement<S>> =>
+	intoOption(root.querySelector(selector) as SelectedElement<S> | null);
 
 /**
- * Attempts to retrieve a list of elements from the DOM based on the given selector, returning an {@link Option} based
- * on whether this was successful.
+ * Retrieves every element in the DOM that matches the given selector, in document order. The returned
+ * {@link SafeArray} will be empty if nothing matched.
  *
  * @param selector The elements to be selected.
+ * @param root The element, document or fragment to search within. Defaults to the global {@link document}.
  */
-export const querySelectorAll = (selector: string) => intoOption(document.querySelectorAll(selector));
+export const querySelectorAll = <S extends string>(selector: S, root: ParentNode = document): SafeArray<SelectedElement<S>> =>
+	createSafeArray(Array.from(root.querySelectorAll(selector)) as SelectedElement<S>[]);
 
 /**
- * Adds an event listener to the given element, returning an object to allow removing the event listener.
+ * Like {@link querySelectorAll}, but for when at least one element is required, returning None if nothing matched.
  *
- * @param element The element to add a listener to.
+ * @param selector The elements to be selected.
+ * @param root The element, document or fragment to search within. Defaults to the global {@link document}.
+ */
+export const querySelectorAllNonEmpty = <S extends string>(selector: S, root: ParentNode = document): Option<NonEmptyArray<SelectedElement<S>>> => {
+	const [first, ...rest] = querySelectorAll(selector, root).toArray();
+
+	return intoOption(first).map((element): NonEmptyArray<SelectedElement<S>> => [element, ...rest]);
+};
+
+/**
+ * Attempts to retrieve the closest ancestor of the given element that matches the given selector, including the
+ * element itself.
+ *
+ * @param element The element to begin searching from.
+ * @param selector The ancestor to be selected.
+ */
+export const closest = <S extends string>(element: Element, selector: S): Option<SelectedElement<S>> =>
+	intoOption(element.closest(selector) as SelectedElement<S> | null);
+
+/**
+ * Attempts to retrieve the element with the given id.
+ *
+ * @param id The id of the element.
+ * @param doc The document to search within. Defaults to the global {@link document}.
+ */
+export const getById = (id: string, doc: Document = document): Option<HTMLElement> => intoOption(doc.getElementById(id));
+
+/**
+ * Returns a function that checks an element is an instance of the given class at runtime, narrowing it into an Ok if
+ * so, otherwise returning an Err. When using a DOM stand-in, pass the class from that DOM's window.
+ *
+ * @example
+ * querySelector('#submit').map(as(HTMLButtonElement)); // Option<Result<HTMLButtonElement, UnexpectedElementError>>
+ *
+ * @param constructor The class the element is expected to be an instance of.
+ */
+export const as = <E extends Element>(constructor: abstract new (...args: never[]) => E) => (element: Element): Result<E, UnexpectedElementError> =>
+	element instanceof constructor
+		? Ok(element)
+		: Err({ type: 'UNEXPECTED_ELEMENT', expected: constructor.name, element });
+
+/**
+ * The events that can be listened to on the given element.
  */
-export const addEventListenerToElement = (element: Element) => <K extends keyof ElementEventMap>(event: K, listener: (event: ElementEventMap[K]) => void): Listener => {
-	element.addEventListener(event, listener);
+type EventMapOf<E extends Element> =
+	E extends HTMLElement ? HTMLElementEventMap
+		: E extends SVGElement ? SVGElementEventMap
+			: ElementEventMap;
+
+const listen = effect('SafeDOM.addEventListener', (target: EventTarget, event: string, listener: (event: Event) => void, options?: AddEventListenerOptions): Listener => {
+	target.addEventListener(event, listener, options);
 
 	return {
-		removeListener: () => element.removeEventListener(event, listener)
-	}
+		removeListener: () => target.removeEventListener(event, listener, options)
+	};
+}, () => ({ removeListener: () => {} }));
+
+const dispatch = effect('SafeDOM.dispatchEvent', (target: EventTarget, event: Event) => target.dispatchEvent(event), () => true);
+
+/**
+ * Returns an {@link IO} that will add an event listener to the given element, returning an object to allow removing
+ * the event listener. Use the `once` option to remove it after the first event, or the `signal` option to remove it
+ * once the given {@link AbortSignal} is aborted.
+ *
+ * @param element The element to add a listener to.
+ */
+export const addEventListenerToElement = <E extends Element>(element: E) => <K extends keyof EventMapOf<E> & string>(event: K, listener: (event: EventMapOf<E>[K]) => void, options?: AddEventListenerOptions): IO<Listener> =>
+	listen(element, event, listener as (event: Event) => void, options);
+
+/**
+ * Returns an {@link IO} that will add an event listener to the given window, returning an object to allow removing the
+ * event listener. See {@link addEventListenerToElement} for the available options.
+ *
+ * @param target The window to add a listener to. Defaults to the global {@link window}.
+ */
+export const addEventListenerToWindow = (target: Window = window) => <K extends keyof WindowEventMap>(event: K, listener: (event: WindowEventMap[K]) => void, options?: AddEventListenerOptions): IO<Listener> =>
+	listen(target, event, listener as (event: Event) => void, options);
+
+/**
+ * Returns an {@link IO} that will add an event listener to the given document, returning an object to allow removing
+ * the event listener. See {@link addEventListenerToElement} for the available options.
+ *
+ * @param doc The document to add a listener to. Defaults to the global {@link document}.
+ */
+export const addEventListenerToDocument = (doc: Document = document) => <K extends keyof DocumentEventMap>(event: K, listener: (event: DocumentEventMap[K]) => void, options?: AddEventListenerOptions): IO<Listener> =>
+	listen(doc, event, listener as (event: Event) => void, options);
+
+/**
+ * The events that can be listened to on the given target.
+ */
+type EventMapFor<T extends EventTarget> =
+	T extends Window ? WindowEventMap
+		: T extends Document ? DocumentEventMap
+			: T extends Element ? EventMapOf<T>
+				: Record<string, Event>;
+
+/**
+ * Returns a {@link Stream} of every given event on the given element, document or window. A listener is added for
+ * each subscription, and removed once it unsubscribes.
+ *
+ * @example
+ * eventStream(searchInput, 'input').map(() => searchInput.value).debounce(300);
+ *
+ * @param target The element, document or window to listen to.
+ * @param event The event to listen to.
+ * @param options The options each listener will be added with.
+ */
+export const eventStream = <T extends EventTarget, K extends keyof EventMapFor<T> & string>(target: T, event: K, options?: AddEventListenerOptions): Stream<EventMapFor<T>[K]> =>
+	stream(observer => listen(target, event, nativeEvent => observer.next(nativeEvent as EventMapFor<T>[K]), options).UNSAFE_run());
+
+const isElement = (target: EventTarget | null): target is Element => target !== null && typeof (target as Element).closest === 'function';
+
+/**
+ * Returns an {@link IO} that will add a single event listener to the given root, which calls the given handler
+ * whenever the event occurs on, or within, an element inside the root that matches the given selector. Unlike adding
+ * listeners to each element, this also handles elements that are added to the root later on.
+ *
+ * @example
+ * delegate(table, 'click', '.row button', (event, button) => removeRow(button.dataset.id));
+ *
+ * @param root The element or document the listener will be added to.
+ * @param event The event to listen to.
+ * @param selector The elements the handler will be called for.
+ * @param handler The function that will be called with the event and the matching element.
+ * @param options The options the listener will be added with.
+ */
+export const delegate = <K extends keyof HTMLElementEventMap, S extends string>(
+	root: Element | Document,
+	event: K,
+	selector: S,
+	handler: (event: HTMLElementEventMap[K], element: SelectedElement<S>) => void,
+	options?: AddEventListenerOptions
+): IO<Listener> => listen(root, event, nativeEvent => {
+	if (!isElement(nativeEvent.target)) return;
+
+	closest(nativeEvent.target, selector).inspect(element => {
+		// Ancestors of the root may also match the selector, but are outside of what is being delegated.
+		if (root.contains(element)) {
+			handler(nativeEvent as HTMLElementEventMap[K], element);
+		}
+	});
+}, options);
+
+/**
+ * The listeners of a {@link SafeCustomEvent}; see {@link SafeCustomEvent#listen}.
+ */
+export type SafeCustomEventListeners<S extends ZodSchema> = {
+	onEvent: (detail: z.infer<S>, event: CustomEvent<unknown>) => void,
+	onInvalidDetail: (error: ZodError, event: CustomEvent<unknown>) => void
+};
+
+/**
+ * A {@link CustomEvent} whose detail is described by a zod schema, allowing it to be dispatched and listened to with
+ * type safety. Create one with {@link defineCustomEvent}.
+ */
+export type SafeCustomEvent<S extends ZodSchema> = {
+	/**
+	 * The name of the event.
+	 */
+	name: string,
+
+	/**
+	 * The schema the detail of the event must satisfy.
+	 */
+	schema: S,
+
+	/**
+	 * Returns an {@link IO} that will dispatch this event on the given target with the given detail, returning false
+	 * if the event was cancelled.
+	 *
+	 * @param target The target to dispatch this event on.
+	 * @param detail The detail of the event.
+	 * @param init Whether the event bubbles, is cancelable, or is composed. None of these are enabled by default.
+	 */
+	dispatch: (target: EventTarget, detail: z.input<S>, init?: EventInit) => IO<boolean>,
+
+	/**
+	 * Returns an {@link IO} that will listen to this event on the given target. The detail of every event is validated
+	 * with the schema of this event, as events may be dispatched from anywhere.
+	 *
+	 * @param target The target to listen on.
+	 * @param listeners The functions that will be called with each valid or invalid event.
+	 * @param options The options the listener will be added with.
+	 */
+	listen: (target: EventTarget, listeners: SafeCustomEventListeners<S>, options?: AddEventListenerOptions) => IO<Listener>
+};
+
+/**
+ * Creates a {@link SafeCustomEvent} with the given name, whose detail must satisfy the given schema.
+ *
+ * @example
+ * const cartUpdated = defineCustomEvent('cart-updated', z.object({ count: z.number() }));
+ * cartUpdated.dispatch(document, { count: 3 }, { bubbles: true }).UNSAFE_run();
+ *
+ * @param name The name of the event.
+ * @param schema The schema the detail of the event must satisfy.
+ */
+export const defineCustomEvent = <S extends ZodSchema>(name: string, schema: S): SafeCustomEvent<S> => ({
+	name,
+	schema,
+	dispatch: (target, detail, init) => dispatch(target, new CustomEvent(name, { ...init, detail })),
+	listen: (target, listeners, options) => listen(target, name, event => {
+		const customEvent = event as CustomEvent<unknown>;
+
+		parseWithSchema(schema)(customEvent.detail).caseOf({
+			Ok: detail => listeners.onEvent(detail, customEvent),
+			Err: error => listeners.onInvalidDetail(error, customEvent)
+		});
+	}, options)
+});
+
+/**
+ * A {@link Listener} that removes every Listener added to it at once, e.g. when a component is torn down.
+ */
+export type ListenerGroup = Listener & {
+	/**
+	 * Adds the given Listeners to this group. If this group has already been removed, they will be removed
+	 * immediately instead.
+	 *
+	 * @param listeners The Listeners to be added.
+	 */
+	add: (...listeners: Listener[]) => ListenerGroup
+};
+
+/**
+ * Creates an empty {@link ListenerGroup}.
+ *
+ * @example
+ * const group = createListenerGroup();
+ * addEventListenerToWindow()('resize', onResize).map(group.add).UNSAFE_run();
+ * delegate(list, 'click', 'button', onClick).map(group.add).UNSAFE_run();
+ *
+ * group.removeListener();
+ */
+export const createListenerGroup = (): ListenerGroup => {
+	let listeners: Listener[] = [];
+	let isRemoved = false;
+
+	const group: ListenerGroup = {
+		add: (...added) => {
+			if (isRemoved) {
+				added.forEach(listener => listener.removeListener());
+			} else {
+				listeners.push(...added);
+			}
+
+			return group;
+		},
+		removeListener: () => {
+			const removed = listeners;
+			isRemoved = true;
+			listeners = [];
+
+			removed.forEach(listener => listener.removeListener());
+		}
+	};
+
+	return group;
 };
\ No newline at end of file
@@ -0,0 +1,206 @@
+import { z, ZodSchema } from 'zod';
+import { ParseJSONError, parseJSONWithSchema, parseWithSchema } from './SafeJSON';
+import { AsyncResult, Err, IO, Ok, RetryPolicy, task, Task, TaskTimeoutError } from '../monads';
+
+/**
+ * Represents everything that may go wrong while making a request with {@link SafeFetch}.
+ */
+export type FetchError =
+	| { type: 'NETWORK_ERROR', error: unknown }
+	| TaskTimeoutError
+	| { type: 'HTTP_STATUS', status: number, statusText: string, body: string }
+	| ParseJSONError;
+
+export type HttpMethod = 'GET' | 'HEAD' | 'OPTIONS' | 'DELETE' | 'POST' | 'PUT' | 'PATCH';
+
+export type QueryParams = Record<string, string | number | boolean | undefined>;
+
+export type SafeFetchConfig = {
+	/**
+	 * A URL that will be prepended to the URL of every request, e.g. 'https://example.com/api'.
+	 */
+	baseUrl?: string,
+
+	/**
+	 * Headers that will be sent with every request.
+	 */
+	headers?: Record<string, string>,
+
+	/**
+	 * The duration in milliseconds to wait for each request before failing with a TIMEOUT. Defaults to no timeout.
+	 */
+	timeout?: number,
+
+	/**
+	 * The policy used to retry idempotent requests (GET, HEAD, OPTIONS, PUT and DELETE). Defaults to no retries.
+	 * If no shouldRetry is given, network errors, timeouts, 429 and 5xx responses will be retried.
+	 */
+	retry?: RetryPolicy<FetchError>,
+
+	/**
+	 * The fetch implementation used to make requests. Defaults to the global {@link fetch}.
+	 */
+	fetch?: (url: string, init: RequestInit) => Promise<Response>
+};
+
+export type SafeFetchOptions = Pick<SafeFetchConfig, 'headers' | 'timeout' | 'retry'> & {
+	/**
+	 * Query parameters that will be appended to the URL. Undefined values will be omitted.
+	 */
+	query?: QueryParams
+};
+
+export type SafeFetchOptionsWithBody<B> = SafeFetchOptions & {
+	/**
+	 * The body of the request, which will be serialised via JSON.stringify.
+	 */
+	body: B
+};
+
+/**
+ * Represents a safer version of the {@link fetch} API. Every request will be validated against the given schema, and
+ * will not be sent until the returned {@link IO} is run.
+ */
+export type SafeFetch = {
+	/**
+	 * Sends a request with the given method, resolving to the response parsed with the given schema.
+	 *
+	 * @param method The HTTP method of the request.
+	 * @param url The URL to send the request to.
+	 * @param schema The schema the response will be parsed with.
+	 * @param options Any further options for this request.
+	 */
+	request: <S extends ZodSchema, B = never>(method: HttpMethod, url: string, schema: S, options?: SafeFetchOptions & { body?: B }) => IO<AsyncResult<z.infer<S>, FetchError>>,
+
+	/**
+	 * Sends a GET request, resolving to the response parsed with the given schema.
+	 *
+	 * @param url The URL to send the request to.
+	 * @param schema The schema the response will be parsed with.
+	 * @param options Any further options for this request.
+	 */
+	get: <S extends ZodSchema>(url: string, schema: S, options?: SafeFetchOptions) => IO<AsyncResult<z.infer<S>, FetchError>>,
+
+	/**
+	 * Sends a DELETE request, resolving to the response parsed with the given schema.
+	 *
+	 * @param url The URL to send the request to.
+	 * @param schema The schema the response will be parsed with.
+	 * @param options Any further options for this request.
+	 */
+	delete: <S extends ZodSchema>(url: string, schema: S, options?: SafeFetchOptions) => IO<AsyncResult<z.infer<S>, FetchError>>,
+
+	/**
+	 * Sends a POST request with the given body, resolving to the response parsed with the given schema.
+	 *
+	 * @param url The URL to send the request to.
+	 * @param schema The schema the response will be parsed with.
+	 * @param options The body and any further options for this request.
+	 */
+	post: <S extends ZodSchema, B>(url: string, schema: S, options: SafeFetchOptionsWithBody<B>) => IO<AsyncResult<z.infer<S>, FetchError>>,
+
+	/**
+	 * Sends a PUT request with the given body, resolving to the response parsed with the given schema.
+	 *
+	 * @param url The URL to send the request to.
+	 * @param schema The schema the response will be parsed with.
+	 * @param options The body and any further options for this request.
+	 */
+	put: <S extends ZodSchema, B>(url: string, schema: S, options: SafeFetchOptionsWithBody<B>) => IO<AsyncResult<z.infer<S>, FetchError>>,
+
+	/**
+	 * Sends a PATCH request with the given body, resolving to the response parsed with the given schema.
+	 *
+	 * @param url The URL to send the request to.
+	 * @param schema The schema the response will be parsed with.
+	 * @param options The body and any further options for this request.
+	 */
+	patch: <S extends ZodSchema, B>(url: string, schema: S, options: SafeFetchOptionsWithBody<B>) => IO<AsyncResult<z.infer<S>, FetchError>>
+};
+
+const IDEMPOTENT_METHODS: HttpMethod[] = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+const isRetryable = (error: FetchError) =>
+	error.type === 'NETWORK_ERROR'
+	|| error.type === 'TIMEOUT'
+	|| (error.type === 'HTTP_STATUS' && (error.status === 429 || error.status >= 500));
+
+const withQuery = (url: string, query: QueryParams = {}) => {
+	const params = new URLSearchParams();
+
+	Object.keys(query).forEach(key => {
+		const value = query[key];
+
+		if (value !== undefined) {
+			params.append(key, String(value));
+		}
+	});
+
+	const search = params.toString();
+
+	if (search === '') return url;
+
+	return `${url}${url.indexOf('?') === -1 ? '?' : '&'}${search}`;
+};
+
+const networkError = <T>(error: unknown) => Err<FetchError, T>({ type: 'NETWORK_ERROR', error });
+
+// The body is read separately from the headers, so the connection may still fail while it is being read.
+const parseResponse = <S extends ZodSchema>(schema: S) => (response: Response) => response.text().then(body => {
+	if (!response.ok) {
+		return Err<FetchError, z.infer<S>>({ type: 'HTTP_STATUS', status: response.status, statusText: response.statusText, body });
+	}
+
+	// Responses such as 204 No Content have no body to parse, so they are validated as undefined instead.
+	if (body === '') {
+		return parseWithSchema(schema)(undefined).mapErr<FetchError>(error => ({ type: 'ZOD_ERROR', error }));
+	}
+
+	return parseJSONWithSchema(schema)(body).mapErr<FetchError>(error => error);
+}, networkError<z.infer<S>>);
+
+/**
+ * Returns a {@link SafeFetch} that will send requests using the given config.
+ *
+ * @param config The config that will be applied to every request.
+ */
+export const getSafeFetch = (config: SafeFetchConfig = {}): SafeFetch => {
+	const request = <S extends ZodSchema, B = never>(method: HttpMethod, url: string, schema: S, options: SafeFetchOptions & { body?: B } = {}) => {
+		const fetchFn = config.fetch ?? ((url: string, init: RequestInit) => fetch(url, init));
+		const hasBody = 'body' in options;
+		const timeout = options.timeout ?? config.timeout;
+		const retry = options.retry ?? config.retry;
+
+		let attempt: Task<z.infer<S>, FetchError> = task(signal =>
+			fetchFn(withQuery(`${config.baseUrl ?? ''}${url}`, options.query), {
+				method,
+				signal,
+				headers: {
+					...(hasBody ? { 'Content-Type': 'application/json' } : {}),
+					...config.headers,
+					...options.headers
+				},
+				body: hasBody ? JSON.stringify(options.body) : undefined
+			}).then(parseResponse(schema), networkError<z.infer<S>>)
+		);
+
+		if (timeout !== undefined) {
+			attempt = attempt.timeout(timeout);
+		}
+
+		if (retry && IDEMPOTENT_METHODS.indexOf(method) !== -1) {
+			attempt = attempt.retry({ shouldRetry: isRetryable, ...retry });
+		}
+
+		return attempt.toIO();
+	};
+
+	return {
+		request,
+		get: (url, schema, options) => request('GET', url, schema, options),
+		delete: (url, schema, options) => request('DELETE', url, schema, options),
+		post: (url, schema, options) => request('POST', url, schema, options),
+		put: (url, schema, options) => request('PUT', url, schema, options),
+		patch: (url, schema, options) => request('PATCH', url, schema, options)
+	};
+};
@@ -1,5 +1,7 @@
 import { z, ZodError, ZodSchema } from 'zod';
-import { Err, Ok, Result } from '../monads';
+import { Err, Invalid, None, Ok, Result, Some, Valid, Validation } from '../monads';
+import { createSafeMap, Equality, SafeMap } from '../datastructures';
+import type { NonEmptyArray } from '../types';
 
 export const parseWithSchema = <S extends ZodSchema>(schema: S) => (obj: unknown): Result<z.infer<S>, ZodError> => {
 	const result = schema.safeParse(obj);
@@ -20,6 +22,69 @@ export type ParseJSONError =
 	| { type: 'ZOD_ERROR', error: ZodError };
 
 export const parseJSONWithSchema = <S extends ZodSchema>(schema: S) => (json: string): Result<z.infer<S>, ParseJSONError> =>
-	parseJSON(json)
-		.mapErr<ParseJSONError>(error => ({type: 'PARSE_ERROR', error}))
-		.andThen(data => parseWithSchema(schema)(data).mapErr<ParseJSONError>(error => ({type: 'ZOD_ERROR', error})));
\ No newline at end of file
+	Result.gen(function* () {
+		const data = yield* parseJSON(json).mapErr(error => ({type: 'PARSE_ERROR' as const, error})).safeUnwrap();
+		const parsed = yield* parseWithSchema(schema)(data).mapErr(error => ({type: 'ZOD_ERROR' as const, error})).safeUnwrap();
+
+		return Ok(parsed);
+	});
+
+export type ValidationIssue = {
+	path: (string | number)[],
+	code: string,
+	message: string
+};
+
+export const flattenZodError = (error: ZodError, basePath: (string | number)[] = []): NonEmptyArray<ValidationIssue> => {
+	const issues = error.issues.map(issue => ({ path: [...basePath, ...issue.path], code: issue.code as string, message: issue.message }));
+	const [first, ...rest] = issues;
+
+	return first ? [first, ...rest] : [{ path: basePath, code: 'custom', message: error.message }];
+};
+
+export const flattenParseJSONError = (error: ParseJSONError, basePath: (string | number)[] = []): NonEmptyArray<ValidationIssue> =>
+	error.type === 'ZOD_ERROR'
+		? flattenZodError(error.error, basePath)
+		: [{ path: basePath, code: 'invalid_json', message: error.error.message }];
+
+export const validateWithSchema = <S extends ZodSchema>(schema: S, basePath: (string | number)[] = []) => (obj: unknown): Validation<z.infer<S>, ValidationIssue> =>
+	parseWithSchema(schema)(obj).caseOf({
+		Ok: data => Valid(data),
+		Err: error => Invalid(...flattenZodError(error, basePath))
+	});
+
+export const validateJSONWithSchema = <S extends ZodSchema>(schema: S, basePath: (string | number)[] = []) => (json: string): Validation<z.infer<S>, ValidationIssue> =>
+	parseJSONWithSchema(schema)(json).caseOf({
+		Ok: data => Valid(data),
+		Err: error => Invalid(...flattenParseJSONError(error, basePath))
+	});
+
+export const optionSchema = <S extends ZodSchema>(inner: S) => z
+	.discriminatedUnion('type', [
+		z.object({ type: z.literal('some'), data: inner }),
+		z.object({ type: z.literal('none') })
+	])
+	.transform(wire => {
+		const option = wire as { type: 'some', data: z.output<S> } | { type: 'none' };
+
+		return option.type === 'some' ? Some<z.output<S>>(option.data) : None<z.output<S>>();
+	});
+
+export const resultSchema = <S extends ZodSchema, F extends ZodSchema>(ok: S, err: F) => z
+	.discriminatedUnion('type', [
+		z.object({ type: z.literal('ok'), data: ok }),
+		z.object({ type: z.literal('err'), error: err })
+	])
+	.transform(wire => {
+		const result = wire as { type: 'ok', data: z.output<S> } | { type: 'err', error: z.output<F> };
+
+		return result.type === 'ok' ? Ok<z.output<S>, z.output<F>>(result.data) : Err<z.output<F>, z.output<S>>(result.error);
+	});
+
+export const safeMapSchema = <K extends ZodSchema, V extends ZodSchema>(key: K, value: V, equality?: Equality<z.output<K>>) => z
+	.array(z.tuple([key, value]))
+	.transform((entries): SafeMap<z.output<K>, z.output<V>> => {
+		const pairs = entries as [z.output<K>, z.output<V>][];
+
+		return equality ? SafeMap.withEquality(equality, pairs) : createSafeMap(pairs);
+	});
\ No newline at end of file
@@ -0,0 +1,381 @@
+import { z, ZodError, ZodIssue, ZodSchema } from 'zod';
+import type { Server } from 'http';
+import { AsyncResult, Err, io, IO, Result, task, Task } from '../monads';
+import { Listener } from '../types';
+import { ParseJSONError, parseWithSchema } from './SafeJSON';
+import {
+	createSafeWebSocket,
+	createSafeWebSocketServer,
+	SafeWebSocket,
+	SafeWebSocketConfig,
+	SafeWebSocketConnection,
+	SafeWebSocketMetadataConfig,
+	SafeWebSocketServer
+} from './SafeWebSocket';
+
+/**
+ * Describes a single RPC method, with the schema of its params and the schema of its response.
+ */
+export type RpcMethod = {
+	request: ZodSchema,
+	response: ZodSchema
+};
+
+/**
+ * Describes every method a server handles and every notification it may push to clients. Define a protocol once with
+ * {@link defineRpcProtocol}, and share it between the client and the server.
+ */
+export type RpcProtocol = {
+	methods: Record<string, RpcMethod>,
+	notifications: Record<string, ZodSchema>
+};
+
+export type RpcParams<P extends RpcProtocol, K extends keyof P['methods']> = z.infer<P['methods'][K]['request']>;
+export type RpcResponse<P extends RpcProtocol, K extends keyof P['methods']> = z.infer<P['methods'][K]['response']>;
+export type RpcNotification<P extends RpcProtocol, K extends keyof P['notifications']> = z.infer<P['notifications'][K]>;
+
+const rpcRemoteErrorSchema = z.discriminatedUnion('type', [
+	z.object({ type: z.literal('METHOD_NOT_FOUND'), method: z.string() }),
+	z.object({ type: z.literal('INVALID_PARAMS'), issues: z.array(z.custom<ZodIssue>()) }),
+	z.object({ type: z.literal('HANDLER_ERROR'), error: z.unknown() }),
+	z.object({ type: z.literal('INTERNAL_ERROR'), error: z.unknown() })
+]);
+
+/**
+ * The errors a server may respond to a call with.
+ */
+export type RpcRemoteError = z.infer<typeof rpcRemoteErrorSchema>;
+
+/**
+ * Represents everything that may go wrong while calling a method with {@link RpcClient#call}.
+ */
+export type RpcError =
+	| RpcRemoteError
+	| { type: 'INVALID_RESPONSE', error: ZodError }
+	| { type: 'TIMEOUT', timeout: number }
+	| { type: 'ABORTED', reason: unknown }
+	| { type: 'CLOSED' };
+
+const rpcMessageSchema = z.discriminatedUnion('kind', [
+	z.object({ kind: z.literal('request'), id: z.string(), method: z.string(), params: z.unknown() }),
+	z.object({ kind: z.literal('response'), id: z.string(), result: z.unknown() }),
+	z.object({ kind: z.literal('error'), id: z.string(), error: rpcRemoteErrorSchema }),
+	z.object({ kind: z.literal('notification'), method: z.string(), params: z.unknown() })
+]);
+
+/**
+ * The format of every message sent between an {@link RpcClient} and an {@link RpcServer}.
+ */
+export type RpcMessage = z.infer<typeof rpcMessageSchema>;
+
+/**
+ * Returns the given protocol as is, providing type inference for its methods and notifications.
+ *
+ * @example
+ * const protocol = defineRpcProtocol({
+ *     methods: {
+ *         getUser: { request: z.object({ id: z.string() }), response: userSchema }
+ *     },
+ *     notifications: {
+ *         userJoined: userSchema
+ *     }
+ * });
+ *
+ * @param protocol The protocol to be defined.
+ */
+export const defineRpcProtocol = <P extends RpcProtocol>(protocol: P): P => protocol;
+
+/**
+ * Converts the given error into something that can be sent via JSON, as Errors otherwise serialise to an empty object.
+ */
+const serializeError = (error: unknown) =>
+	error instanceof Error ? { name: error.name, message: error.message } : error;
+
+/**
+ * Returns whether the given object has the given key itself, so that methods such as 'constructor' are never looked
+ * up on its prototype.
+ */
+const hasOwn = (object: object, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+export type RpcClient<P extends RpcProtocol> = {
+	/**
+	 * Calls the given method on the server, resolving to its response once it has been received and validated. If the
+	 * connection drops before then, this fails with CLOSED, even if the client will reconnect.
+	 *
+	 * @param method The method to call.
+	 * @param params The params to call the method with.
+	 * @param options.timeout The duration in milliseconds to wait for a response. Defaults to the client's timeout.
+	 * @param options.signal A signal that can be used to stop waiting for the response.
+	 */
+	call: <K extends keyof P['methods'] & string>(method: K, params: RpcParams<P, K>, options?: { timeout?: number, signal?: AbortSignal }) => AsyncResult<RpcResponse<P, K>, RpcError>,
+
+	/**
+	 * Listens to the given notification pushed by the server. Notifications that do not match their schema are
+	 * passed to {@link RpcClientConfig#onInvalidMessage}.
+	 *
+	 * @param notification The notification to listen to.
+	 * @param listener The function that will be called with the params of each notification.
+	 */
+	onNotification: <K extends keyof P['notifications'] & string>(notification: K, listener: (params: RpcNotification<P, K>) => void) => Listener,
+
+	/**
+	 * The underlying {@link SafeWebSocket} calls are sent over.
+	 */
+	socket: SafeWebSocket<RpcMessage>,
+
+	/**
+	 * Closes the connection. Any pending calls, and any calls made afterwards, will fail with CLOSED.
+	 */
+	close: () => IO<void>
+};
+
+export type RpcClientConfig = Omit<SafeWebSocketConfig<typeof rpcMessageSchema, RpcMessage>, 'schema' | 'onConnectionOpened'> & {
+	/**
+	 * The duration in milliseconds to wait for each response before failing with a TIMEOUT. Defaults to no timeout.
+	 */
+	timeout?: number,
+
+	onClose?: () => void,
+	onReconnecting?: (attempt: number, delay: number) => void,
+	onReconnected?: () => void,
+	onInvalidMessage?: (error: ParseJSONError, rawMessage: string) => void
+};
+
+type PendingCall = {
+	schema: ZodSchema,
+	settle: (result: Result<unknown, RpcError>) => void
+};
+
+/**
+ * Connects to an {@link RpcServer} implementing the given protocol, resolving to an {@link RpcClient} once connected.
+ *
+ * @param protocol The protocol the server implements.
+ * @param config The config used to connect to the server.
+ */
+export const createRpcClient = <P extends RpcProtocol>(protocol: P, config: RpcClientConfig): Task<RpcClient<P>, Event> => task(signal => {
+	// Every connection has its own calls and listeners, so that running this Task again creates an independent client.
+	const pending = new Map<string, PendingCall>();
+	const notificationListeners = new Map<string, Set<(params: unknown) => void>>();
+	let nextId = 0;
+
+	const failPending = () => pending.forEach(call => call.settle(Err<RpcError, unknown>({ type: 'CLOSED' })));
+
+	const onMessage = (message: RpcMessage) => {
+		if (message.kind === 'notification') {
+			const schema = hasOwn(protocol.notifications, message.method) ? protocol.notifications[message.method] : undefined;
+
+			if (!schema) return;
+
+			parseWithSchema(schema)(message.params).caseOf({
+				Ok: params => notificationListeners.get(message.method)?.forEach(listener => listener(params)),
+				Err: error => config.onInvalidMessage?.({ type: 'ZOD_ERROR', error }, JSON.stringify(message))
+			});
+
+			return;
+		}
+
+		if (message.kind === 'request') return;
+
+		const call = pending.get(message.id);
+
+		if (!call) return;
+
+		if (message.kind === 'error') {
+			call.settle(Err<RpcError, unknown>(message.error));
+			return;
+		}
+
+		call.settle(parseWithSchema(call.schema)(message.result).mapErr<RpcError>(error => ({ type: 'INVALID_RESPONSE', error })));
+	};
+
+	return createSafeWebSocket({
+		...config,
+		schema: rpcMessageSchema,
+		onConnectionOpened: () => ({
+			onMessage,
+			onInvalidMessage: (error, rawMessage) => config.onInvalidMessage?.(error, rawMessage),
+			onReconnecting: (attempt, delay) => {
+				// The server will never respond to calls sent over the dropped connection, whereas calls made while
+				// reconnecting are queued and sent once reconnected.
+				if (attempt === 1) failPending();
+
+				config.onReconnecting?.(attempt, delay);
+			},
+			onReconnected: () => config.onReconnected?.(),
+			onClose: () => {
+				failPending();
+				config.onClose?.();
+			}
+		})
+	}).map((socket): RpcClient<P> => ({
+		call: <K extends keyof P['methods'] & string>(method: K, params: RpcParams<P, K>, options: { timeout?: number, signal?: AbortSignal } = {}) =>
+			new Promise<Result<RpcResponse<P, K>, RpcError>>(resolve => {
+				const id = String(nextId++);
+				const timeout = options.timeout ?? config.timeout;
+				const signal = options.signal;
+
+				const onAbort = () => settle(Err<RpcError, unknown>({ type: 'ABORTED', reason: signal?.reason }));
+				const timer = timeout === undefined ? undefined : setTimeout(() => settle(Err<RpcError, unknown>({ type: 'TIMEOUT', timeout })), timeout);
+				const settle = (result: Result<unknown, RpcError>) => {
+					pending.delete(id);
+					clearTimeout(timer);
+					signal?.removeEventListener('abort', onAbort);
+					resolve(result as Result<RpcResponse<P, K>, RpcError>);
+				};
+
+				if (signal?.aborted) {
+					onAbort();
+					return;
+				}
+
+				// The close handler has already failed every pending call, so nothing would settle this call later on.
+				if (socket.state() === 'CLOSING' || socket.state() === 'CLOSED') {
+					settle(Err<RpcError, unknown>({ type: 'CLOSED' }));
+					return;
+				}
+
+				const definition = hasOwn(protocol.methods, method) ? protocol.methods[method] : undefined;
+
+				signal?.addEventListener('abort', onAbort, { once: true });
+				pending.set(id, { schema: definition?.response ?? z.unknown(), settle });
+				socket.send({ kind: 'request', id, method, params }).UNSAFE_run();
+			}),
+		onNotification: (notification, listener) => {
+			const listeners = notificationListeners.get(notification) ?? new Set();
+			const untypedListener = listener as (params: unknown) => void;
+
+			listeners.add(untypedListener);
+			notificationListeners.set(notification, listeners);
+
+			return {
+				removeListener: () => listeners.delete(untypedListener)
+			};
+		},
+		socket,
+		close: () => socket.close()
+	}))._fn(signal);
+});
+
+/**
+ * The handlers of every method in the given protocol. Each handler may return a {@link Result} or an
+ * {@link AsyncResult}; an Err, or any thrown error, will be serialised and sent to the client as a HANDLER_ERROR.
+ */
+export type RpcHandlers<P extends RpcProtocol, D> = {
+	[K in keyof P['methods']]: (params: RpcParams<P, K>, connection: SafeWebSocketConnection<RpcMessage, D>) => Result<RpcResponse<P, K>, unknown> | AsyncResult<RpcResponse<P, K>, unknown>
+};
+
+export type RpcServer<P extends RpcProtocol, D> = {
+	/**
+	 * Pushes the given notification to the client with the given connection id.
+	 *
+	 * @param id The id of the connection to notify.
+	 * @param notification The notification to push.
+	 * @param params The params of the notification.
+	 */
+	notify: <K extends keyof P['notifications'] & string>(id: string, notification: K, params: RpcNotification<P, K>) => IO<void>,
+
+	/**
+	 * Pushes the given notification to every connected client.
+	 *
+	 * @param notification The notification to push.
+	 * @param params The params of the notification.
+	 */
+	broadcast: <K extends keyof P['notifications'] & string>(notification: K, params: RpcNotification<P, K>) => IO<void>,
+
+	/**
+	 * The underlying {@link SafeWebSocketServer} calls are received by.
+	 */
+	socketServer: SafeWebSocketServer<RpcMessage, D>,
+
+	/**
+	 * Closes every connection and the server.
+	 */
+	close: () => Task<void, Error>
+};
+
+export type RpcServerConfig<P extends RpcProtocol, D = undefined> = {
+	handlers: RpcHandlers<P, D>,
+	onConnectionOpened?: (connection: SafeWebSocketConnection<RpcMessage, D>, server: RpcServer<P, D>) => void,
+	onConnectionClosed?: (connection: SafeWebSocketConnection<RpcMessage, D>, server: RpcServer<P, D>) => void,
+	onInvalidMessage?: (error: ParseJSONError, rawMessage: string) => void,
+
+	/**
+	 * Called with any error the server emits once it is listening. If omitted, the server is closed instead.
+	 */
+	onError?: (error: Error, server: RpcServer<P, D>) => void
+} & SafeWebSocketMetadataConfig<D> & ({ port: number } | { server: Server });
+
+/**
+ * Starts an {@link RpcServer} implementing the given protocol with the given handlers, resolving once it is listening.
+ *
+ * @param protocol The protocol the server implements.
+ * @param config The handlers of every method, and the config used to start the server.
+ */
+export const createRpcServer = <P extends RpcProtocol, D = undefined>(protocol: P, config: RpcServerConfig<P, D>): Task<RpcServer<P, D>, Error> => {
+	const internalError = (id: string, error: unknown): RpcMessage => ({ kind: 'error', id, error: { type: 'INTERNAL_ERROR', error: serializeError(error) } });
+
+	const handleRequest = (connection: SafeWebSocketConnection<RpcMessage, D>, id: string, method: string, params: unknown): Promise<RpcMessage> => {
+		const definition = hasOwn(protocol.methods, method) ? protocol.methods[method] : undefined;
+		const handler = hasOwn(config.handlers, method)
+			? config.handlers[method] as ((params: unknown, connection: SafeWebSocketConnection<RpcMessage, D>) => Result<unknown, unknown> | AsyncResult<unknown, unknown>) | undefined
+			: undefined;
+
+		if (!definition || !handler) {
+			return Promise.resolve({ kind: 'error', id, error: { type: 'METHOD_NOT_FOUND', method } });
+		}
+
+		try {
+			return parseWithSchema(definition.request)(params).caseOf<Promise<RpcMessage>>({
+				Ok: validParams => new Promise<Result<unknown, unknown>>(resolve => resolve(handler(validParams, connection))).then(
+					result => result.caseOf<RpcMessage>({
+						Ok: data => ({ kind: 'response', id, result: data }),
+						Err: error => ({ kind: 'error', id, error: { type: 'HANDLER_ERROR', error: serializeError(error) } })
+					}),
+					error => ({ kind: 'error', id, error: { type: 'HANDLER_ERROR', error: serializeError(error) } })
+				),
+				Err: error => Promise.resolve({ kind: 'error', id, error: { type: 'INVALID_PARAMS', issues: error.issues } })
+			});
+		} catch (error) {
+			return Promise.resolve(internalError(id, error));
+		}
+	};
+
+	const intoRpcServer = (socketServer: SafeWebSocketServer<RpcMessage, D>): RpcServer<P, D> => ({
+		notify: (id, notification, params) => io(() => {
+			socketServer.getClient(id).inspect(connection => connection.socket.send({ kind: 'notification', method: notification, params }).UNSAFE_run());
+		}),
+		broadcast: (notification, params) => socketServer.broadcast({ kind: 'notification', method: notification, params }),
+		socketServer,
+		close: () => socketServer.close()
+	});
+
+	return createSafeWebSocketServer<typeof rpcMessageSchema, RpcMessage, D>({
+		...config,
+		schema: rpcMessageSchema,
+		onListening: socketServer => {
+			const server = intoRpcServer(socketServer);
+
+			return {
+				onConnectionOpened: (ws, connection) => {
+					config.onConnectionOpened?.(connection, server);
+
+					return {
+						onMessage: message => {
+							if (message.kind !== 'request') return;
+
+							handleRequest(connection, message.id, message.method, message.params)
+								.catch(error => internalError(message.id, error))
+								.then(response => ws.send(response).UNSAFE_run())
+								// The connection may have closed before the response was ready, leaving no one to reply to.
+								.catch(() => {});
+						},
+						onInvalidMessage: (error, rawMessage) => config.onInvalidMessage?.(error, rawMessage),
+						onClose: () => {}
+					};
+				},
+				onConnectionClosed: connection => config.onConnectionClosed?.(connection, server),
+				onError: config.onError && (error => config.onError?.(error, server))
+			};
+		}
+	}).map(intoRpcServer);
+};
@@ -1,19 +1,177 @@
 import { z, ZodSchema } from 'zod';
-import {ParseJSONError, parseJSONWithSchema} from './SafeJSON';
-import { intoOption, io, IO, Option, Result } from '../monads';
+import {ParseJSONError, parseJSON, parseJSONWithSchema, parseWithSchema} from './SafeJSON';
+import { effect, Err, intoOption, IO, None, Ok, Option, Result, Some } from '../monads';
+import { Listener } from '../types';
+import { fromWebStorage, StorageBackend } from './StorageBackend';
+
+/**
+ * Represents a schema that has changed over time, along with the migrations required to bring values stored with an
+ * older version of the schema up to date. Create one with {@link versionedSchema}.
+ */
+export type VersionedSchema<S extends ZodSchema> = {
+	/**
+	 * The schema of every version, where the schema of version n is at index n - 1.
+	 *
+	 * THIS SHOULD NOT BE ACCESSED OUTSIDE OF LIBRARIES.
+	 */
+	_schemas: ZodSchema[],
+
+	/**
+	 * The migration from every version to the next, where the migration from version n is at index n - 1.
+	 *
+	 * THIS SHOULD NOT BE ACCESSED OUTSIDE OF LIBRARIES.
+	 */
+	_migrations: ((data: unknown) => unknown)[],
+
+	/**
+	 * The current version of this schema, starting from 1.
+	 */
+	version: number,
+
+	/**
+	 * The schema of the current version.
+	 */
+	schema: S,
+
+	/**
+	 * Returns a new VersionedSchema with the given schema as the next version, migrating values from the current
+	 * version with the given function.
+	 *
+	 * @param schema The schema of the next version.
+	 * @param migration The function that will convert a value of the current version into the next version.
+	 */
+	migrate: <N extends ZodSchema>(schema: N, migration: (data: z.infer<S>) => z.infer<N>) => VersionedSchema<N>
+};
+
+const createVersionedSchema = <S extends ZodSchema>(schemas: ZodSchema[], migrations: ((data: unknown) => unknown)[], schema: S): VersionedSchema<S> => ({
+	_schemas: schemas,
+	_migrations: migrations,
+	version: schemas.length,
+	schema,
+	migrate: (next, migration) => createVersionedSchema([...schemas, next], [...migrations, migration as (data: unknown) => unknown], next)
+});
+
+/**
+ * Creates a {@link VersionedSchema} with the given schema as version 1. Values stored before a key was versioned are
+ * treated as version 1.
+ *
+ * @example
+ * const userSchema = versionedSchema(z.object({ name: z.string() }))
+ *     .migrate(z.object({ firstName: z.string(), lastName: z.string() }), ({ name }) => {
+ *         const [firstName = '', lastName = ''] = name.split(' ');
+ *         return { firstName, lastName };
+ *     });
+ *
+ * @param schema The schema of version 1.
+ */
+export const versionedSchema = <S extends ZodSchema>(schema: S): VersionedSchema<S> => createVersionedSchema([schema], [], schema);
+
+/**
+ * The schema of a single key in a {@link SafeStorage}, either a regular schema or a {@link VersionedSchema}.
+ */
+export type SafeStorageKeySchema = ZodSchema | VersionedSchema<ZodSchema>;
+
+export type SafeStorageSchema = Record<string, SafeStorageKeySchema>;
+
+/**
+ * The type of the value stored at the given key schema.
+ */
+export type SafeStorageValue<D extends SafeStorageKeySchema> = D extends VersionedSchema<infer S> ? z.infer<S> : D extends ZodSchema ? z.infer<D> : never;
+
+/**
+ * Represents everything that may go wrong while retrieving an item from a {@link SafeStorage}.
+ */
+export type SafeStorageError =
+	| ParseJSONError
+	| { type: 'UNKNOWN_VERSION', version: unknown }
+	| { type: 'MIGRATION_ERROR', fromVersion: number, toVersion: number, error: unknown };
+
+/**
+ * Represents everything that may go wrong while assigning an item in a {@link SafeStorage}.
+ */
+export type SafeStorageWriteError =
+	| { type: 'QUOTA_EXCEEDED', error: unknown }
+	| { type: 'SERIALIZE_ERROR', error: unknown };
+
+export type SafeStorageOptions<T extends SafeStorageSchema> = {
+	/**
+	 * The default duration in milliseconds that items at each key will be kept for before expiring. Expired items are
+	 * retrieved as None, and are removed by {@link SafeStorage#removeExpired} or before any item is evicted. Defaults to
+	 * no expiry.
+	 */
+	ttl?: { [K in keyof T]?: number },
+
+	/**
+	 * Evicts the least recently used items in this Storage's schema whenever assigning an item would cause the total
+	 * size of every item to exceed maxBytes. Sizes are measured in UTF-16 code units, like {@link localStorage}, so
+	 * each character of a key or value counts as 2 bytes. Defaults to no eviction.
+	 */
+	eviction?: { maxBytes: number },
+
+	/**
+	 * The clock used to determine whether items have expired. Defaults to {@link Date.now}.
+	 */
+	now?: () => number
+};
+
+export type SafeStorageSetOptions = {
+	/**
+	 * The duration in milliseconds that this item will be kept for before expiring, overriding the key's default.
+	 */
+	ttl?: number
+};
+
+/**
+ * Describes the outcome of {@link SafeStorage#migrateAll}.
+ */
+export type SafeStorageMigrationReport<T extends SafeStorageSchema> = {
+	/**
+	 * The keys whose values were migrated and written back.
+	 */
+	migrated: (keyof T)[],
+
+	/**
+	 * The keys whose values could not be read or migrated, along with the reason.
+	 */
+	failed: { key: keyof T, error: SafeStorageError | SafeStorageWriteError }[]
+};
+
+/**
+ * The listeners of a single key in a {@link SafeStorage}; see {@link SafeStorage#subscribe}.
+ */
+export type SafeStorageListeners<V> = {
+	/**
+	 * Called with the new value whenever the key changes, or None if the key was removed.
+	 */
+	onChange: (value: Option<V>) => void,
+
+	/**
+	 * Called instead of onChange whenever the key changes to a value that cannot be parsed with the key's schema.
+	 */
+	onInvalidValue: (error: SafeStorageError, rawValue: string) => void
+};
+
+/**
+ * The listeners of every key in a {@link SafeStorage}; see {@link SafeStorage#watchAll}.
+ */
+export type SafeStorageWatchAllListeners<T extends SafeStorageSchema> = {
+	onChange: <K extends keyof T>(key: K, value: Option<SafeStorageValue<T[K]>>) => void,
+	onInvalidValue: <K extends keyof T>(key: K, error: SafeStorageError, rawValue: string) => void
+};
 
 /**
  * Represents a safer version of the traditional {@link Storage} API. This integrates with {@link Option} and {@link IO}
  * to provide a more elegant developer experience.
  */
-export type SafeStorage<T extends Record<string, ZodSchema>> = {
+export type SafeStorage<T extends SafeStorageSchema> = {
 	/**
 	 * Attempts to retrieve the item at the given key. If the item exists, it will then be attempted to be parsed,
-	 * resulting in a {@link Result}.
+	 * resulting in a {@link Result}. Items stored with an older version of a {@link VersionedSchema} will be migrated,
+	 * but not written back; see {@link SafeStorage#migrateItem}. Expired items result in None.
 	 *
 	 * @param key The key to retrieve.
 	 */
-	getItem: <K extends keyof T>(key: K) => Option<Result<z.infer<T[K]>, ParseJSONError>>,
+	getItem: <K extends keyof T>(key: K) => Option<Result<SafeStorageValue<T[K]>, SafeStorageError>>,
 
 	/**
 	 * Returns whether an item at the key exists.
@@ -25,10 +183,24 @@ export type SafeStorage<T extends Record<string, ZodSchema>> = {
 	/**
 	 * Assigns an item to the given key, automatically serialising the value via JSON.stringify.
 	 *
+	 * NOTE: THIS WILL THROW AN ERROR if the value cannot be serialised or the Storage is full; use
+	 * {@link SafeStorage#trySetItem} to handle these cases instead.
+	 *
 	 * @param key The key to assign to.
 	 * @param value The value to be assigned.
+	 * @param options Any further options for this item.
 	 */
-	setItem: <K extends keyof T>(key: K, value: z.infer<T[K]>) => IO<SafeStorage<T>>,
+	setItem: <K extends keyof T>(key: K, value: SafeStorageValue<T[K]>, options?: SafeStorageSetOptions) => IO<SafeStorage<T>>,
+
+	/**
+	 * Assigns an item to the given key like {@link SafeStorage#setItem}, resulting in an Err rather than throwing if the
+	 * value cannot be serialised or the Storage is full.
+	 *
+	 * @param key The key to assign to.
+	 * @param value The value to be assigned.
+	 * @param options Any further options for this item.
+	 */
+	trySetItem: <K extends keyof T>(key: K, value: SafeStorageValue<T[K]>, options?: SafeStorageSetOptions) => IO<Result<SafeStorage<T>, SafeStorageWriteError>>,
 
 	/**
 	 * Removes an item entirely from this Storage at the given key.
@@ -38,49 +210,382 @@ export type SafeStorage<T extends Record<string, ZodSchema>> = {
 	removeItem: <K extends keyof T>(key: K) => IO<SafeStorage<T>>,
 
 	/**
-	 * Clears this Storage.
+	 * Retrieves the item at the given key like {@link SafeStorage#getItem}, writing the item back with the current
+	 * version if it had to be migrated. Results in an Err of {@link SafeStorageWriteError} if it could not be written.
+	 *
+	 * @param key The key to migrate.
+	 */
+	migrateItem: <K extends keyof T>(key: K) => IO<Option<Result<SafeStorageValue<T[K]>, SafeStorageError | SafeStorageWriteError>>>,
+
+	/**
+	 * Migrates every item in this Storage like {@link SafeStorage#migrateItem}, reporting which keys were migrated
+	 * and which keys failed.
+	 */
+	migrateAll: () => IO<SafeStorageMigrationReport<T>>,
+
+	/**
+	 * Registers listeners that will be called whenever the item at the given key changes, either through this
+	 * SafeStorage or, if the backend supports it, from outside of it (such as another tab changing {@link localStorage}).
+	 * Every new value will be parsed with the key's schema, like {@link SafeStorage#getItem}.
+	 *
+	 * @param key The key to subscribe to.
+	 * @param listeners The listeners that will be called with every change.
+	 */
+	subscribe: <K extends keyof T>(key: K, listeners: SafeStorageListeners<SafeStorageValue<T[K]>>) => Listener,
+
+	/**
+	 * Registers listeners that will be called whenever any item in this Storage's schema changes, like
+	 * {@link SafeStorage#subscribe}.
+	 *
+	 * @param listeners The listeners that will be called with every change.
+	 */
+	watchAll: (listeners: SafeStorageWatchAllListeners<T>) => Listener,
+
+	/**
+	 * Returns a function that will retrieve the current item at the given key like {@link SafeStorage#getItem}, but
+	 * will only parse the item again once its raw value has changed. Until then, the previous result is returned as is,
+	 * making this suitable for reactive UI libraries that compare values by reference.
+	 *
+	 * @param key The key to retrieve.
+	 */
+	select: <K extends keyof T>(key: K) => () => Option<Result<SafeStorageValue<T[K]>, SafeStorageError>>,
+
+	/**
+	 * Removes every expired item in this Storage's schema, returning the keys that were removed.
+	 */
+	removeExpired: () => IO<(keyof T)[]>,
+
+	/**
+	 * Removes every item in this Storage's schema. Items at any other key in the underlying backend are left untouched.
 	 */
 	clear: () => IO<SafeStorage<T>>
 };
 
+const isVersionedSchema = (schema: SafeStorageKeySchema): schema is VersionedSchema<ZodSchema> => '_migrations' in schema;
+
 /**
- * Returns a {@link SafeStorage} based on the given Storage source and Schema. This generally should not be used;
- * see {@link getSafeLocalStorage} and {@link getSafeSessionStorage}.
- *
- * @param storage The Storage source (generally {@link sessionStorage} or {@link localStorage})
+ * Items of a {@link VersionedSchema} or with an expiry are wrapped in this envelope, recording the version they were
+ * stored with and when they expire.
  */
-export const getSafeStorage = (storage: Storage) => <S extends Record<string, ZodSchema>>(schema: S): SafeStorage<S> => ({
-	getItem: <K extends keyof S>(key: K) => intoOption(storage.getItem(key as string))
-		.map(value => parseJSONWithSchema(schema[key])(value)),
-	hasItem(key) {
-		return this.getItem(key).isSome();
-	},
-	setItem<K extends keyof S>(key: K, value: z.infer<S[K]>) {
-		return io(() => {
-			storage.setItem(key as string, JSON.stringify(value));
-			return this;
-		});
-	},
-	removeItem<K extends keyof S>(key: K) {
-		return io(() => {
-			storage.removeItem(key as string);
-			return this;
-		});
-	},
-	clear() {
-		return io(() => {
-			storage.clear();z
-			return this;
+type StoredEnvelope = { $data: unknown, $version?: unknown, $expires?: unknown };
+
+const isStoredEnvelope = (json: unknown): json is StoredEnvelope =>
+	typeof json === 'object' && json !== null && '$data' in json && ('$version' in json || '$expires' in json);
+
+/**
+ * Parses the given stored value with the given versioned schema, migrating it to the current version if required.
+ */
+const parseVersioned = (schema: VersionedSchema<ZodSchema>, version: unknown, stored: unknown): Result<{ data: unknown, migrated: boolean }, SafeStorageError> => {
+	if (typeof version !== 'number' || !Number.isInteger(version) || version < 1 || version > schema.version) {
+		return Err<SafeStorageError, { data: unknown, migrated: boolean }>({ type: 'UNKNOWN_VERSION', version });
+	}
+
+	let result: Result<unknown, SafeStorageError> = parseWithSchema(schema._schemas[version - 1] as ZodSchema)(stored)
+		.mapErr<SafeStorageError>(error => ({ type: 'ZOD_ERROR', error }));
+
+	for (let from = version; from < schema.version; from++) {
+		result = result.andThen(data => {
+			try {
+				const migrated = (schema._migrations[from - 1] as (data: unknown) => unknown)(data);
+
+				return parseWithSchema(schema._schemas[from] as ZodSchema)(migrated)
+					.mapErr<SafeStorageError>(error => ({ type: 'MIGRATION_ERROR', fromVersion: from, toVersion: from + 1, error }));
+			} catch (error) {
+				return Err<SafeStorageError, unknown>({ type: 'MIGRATION_ERROR', fromVersion: from, toVersion: from + 1, error });
+			}
 		});
 	}
-});
+
+	return result.map(data => ({ data, migrated: version !== schema.version }));
+};
+
+type StoredItem = { data: unknown, migrated: boolean, expires: number | undefined };
+
+type MigrationError = SafeStorageError | SafeStorageWriteError;
+
+const isQuotaExceeded = (error: unknown) =>
+	error instanceof Error && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const byteSize = (key: string, raw: string) => (key.length + raw.length) * 2;
+
+// Values stored in a DOM Storage are always strings, so a keys function can only belong to a StorageBackend.
+const isStorageBackend = (storage: StorageBackend | Storage): storage is StorageBackend =>
+	typeof (storage as StorageBackend).keys === 'function';
+
+/**
+ * Returns a {@link SafeStorage} based on the given Storage source and Schema. In the browser, see
+ * {@link getSafeLocalStorage} and {@link getSafeSessionStorage}.
+ *
+ * @param source The Storage source, either a {@link StorageBackend} or a DOM Storage (generally {@link sessionStorage}
+ * or {@link localStorage})
+ */
+export const getSafeStorage = (source: StorageBackend | Storage) => <S extends SafeStorageSchema>(schema: S, options: SafeStorageOptions<S> = {}): SafeStorage<S> => {
+	const storage = isStorageBackend(source) ? source : fromWebStorage(source);
+	const now = options.now ?? (() => Date.now());
+	const schemaKeys = Object.keys(schema);
+
+	// The keys of this schema, ordered from least to most recently used within this session.
+	const recentlyUsed: string[] = [];
+
+	const touch = (key: string) => {
+		const index = recentlyUsed.indexOf(key);
+
+		if (index !== -1) {
+			recentlyUsed.splice(index, 1);
+		}
+
+		recentlyUsed.push(key);
+	};
+
+	const readItem = <K extends keyof S>(key: K): Option<Result<StoredItem, SafeStorageError>> => intoOption(storage.getItem(key as string)).andThen(raw => {
+		const keySchema = schema[key] as SafeStorageKeySchema;
+		const json = parseJSON(raw);
+
+		if (json.isErr()) {
+			return Some(Err<SafeStorageError, StoredItem>({ type: 'PARSE_ERROR', error: json.unwrapErr() }));
+		}
+
+		// Values stored before the key was versioned or given an expiry will not have an envelope, and are treated as
+		// version 1.
+		const value = json.unwrap();
+		const envelope = isStoredEnvelope(value) ? value : undefined;
+		const expires = typeof envelope?.$expires === 'number' ? envelope.$expires : undefined;
+
+		// Reading never writes, so expired items are left in place until they are removed by removeExpired or eviction.
+		if (expires !== undefined && expires <= now()) return None();
+
+		const stored = envelope ? envelope.$data : value;
+		const result = isVersionedSchema(keySchema)
+			? parseVersioned(keySchema, envelope && '$version' in envelope ? envelope.$version : 1, stored)
+			: parseWithSchema(keySchema)(stored).map(data => ({ data, migrated: false })).mapErr<SafeStorageError>(error => ({ type: 'ZOD_ERROR', error }));
+
+		return Some(result.map(({ data, migrated }) => ({ data, migrated, expires })));
+	});
+
+	const serialise = (key: string, value: unknown, expires: number | undefined): Result<string, SafeStorageWriteError> => {
+		const keySchema = schema[key] as SafeStorageKeySchema;
+
+		try {
+			const raw: string | undefined = JSON.stringify(isVersionedSchema(keySchema) || expires !== undefined
+				? { $version: isVersionedSchema(keySchema) ? keySchema.version : undefined, $expires: expires, $data: value }
+				: value
+			);
+
+			return raw === undefined
+				? Err<SafeStorageWriteError, string>({ type: 'SERIALIZE_ERROR', error: new Error(`Attempted to store a value that cannot be serialised at ${key}!`) })
+				: Ok<string, SafeStorageWriteError>(raw);
+		} catch (error) {
+			return Err<SafeStorageWriteError, string>({ type: 'SERIALIZE_ERROR', error });
+		}
+	};
+
+	const changeListeners = new Set<(key: string) => void>();
+	let backendListener: Listener | undefined;
+
+	const notify = (key: string) => changeListeners.forEach(listener => listener(key));
+
+	const removeKey = (key: string) => {
+		storage.removeItem(key);
+		notify(key);
+	};
+
+	const removeExpiredKeys = () => schemaKeys.filter(key => {
+		const isExpired = storage.getItem(key) !== null && readItem(key).isNone();
+
+		if (isExpired) {
+			removeKey(key);
+		}
+
+		return isExpired;
+	});
+
+	// Keys that have not been used within this session are considered to be the least recently used.
+	const leastRecentlyUsed = (exclude: string) => schemaKeys
+		.filter(key => key !== exclude && storage.getItem(key) !== null)
+		.sort((a, b) => recentlyUsed.indexOf(a) - recentlyUsed.indexOf(b));
+
+	const writeKey = (key: string, raw: string): Result<void, SafeStorageWriteError> => {
+		let candidates: string[] = [];
+
+		if (options.eviction) {
+			const { maxBytes } = options.eviction;
+
+			if (byteSize(key, raw) > maxBytes) {
+				return Err<SafeStorageWriteError, void>({ type: 'QUOTA_EXCEEDED', error: new Error(`Attempted to store an item larger than ${maxBytes} bytes at ${key}!`) });
+			}
+
+			// Expired items are removed before anything is evicted, so that they never count towards the total.
+			removeExpiredKeys();
+			candidates = leastRecentlyUsed(key);
+
+			let total = byteSize(key, raw) + candidates.reduce((sum, other) => sum + byteSize(other, storage.getItem(other) ?? ''), 0);
+
+			while (total > maxBytes && candidates.length > 0) {
+				const evicted = candidates.shift() as string;
+				total -= byteSize(evicted, storage.getItem(evicted) ?? '');
+				removeKey(evicted);
+			}
+		}
+
+		// The backend may still be full due to items outside of this schema, in which case more items are evicted.
+		for (;;) {
+			try {
+				storage.setItem(key, raw);
+				touch(key);
+				notify(key);
+
+				return Ok<void, SafeStorageWriteError>(undefined);
+			} catch (error) {
+				const evicted = candidates.shift();
+
+				if (!isQuotaExceeded(error)) throw error;
+				if (evicted === undefined) return Err<SafeStorageWriteError, void>({ type: 'QUOTA_EXCEEDED', error });
+
+				removeKey(evicted);
+			}
+		}
+	};
+
+	const addChangeListener = (listener: (key: string) => void): Listener => {
+		changeListeners.add(listener);
+
+		if (!backendListener && storage.subscribe) {
+			backendListener = storage.subscribe(key => {
+				if (key === null) {
+					schemaKeys.forEach(notify);
+				} else if (Object.prototype.hasOwnProperty.call(schema, key)) {
+					notify(key);
+				}
+			});
+		}
+
+		return {
+			removeListener: () => {
+				changeListeners.delete(listener);
+
+				if (changeListeners.size === 0 && backendListener) {
+					backendListener.removeListener();
+					backendListener = undefined;
+				}
+			}
+		};
+	};
+
+	// Every write is a named effect, so that it can be recorded rather than performed; see `recordIO` in
+	// `safer-ts/testing`. The methods below map the result of each effect to this SafeStorage.
+	const trySetItem = effect('SafeStorage.trySetItem', (key: string, value: unknown, setOptions: SafeStorageSetOptions = {}) => {
+		const ttl = setOptions.ttl ?? options.ttl?.[key];
+
+		return serialise(key, value, ttl === undefined ? undefined : now() + ttl).andThen(raw => writeKey(key, raw));
+	}, () => Ok<void, SafeStorageWriteError>(undefined));
+
+	const removeItem = effect('SafeStorage.removeItem', (key: string) => removeKey(key));
+
+	// Migrated items are written back like any other write, so that subscribers are notified and the item is used.
+	const writeMigrated = (key: string, item: StoredItem): Result<StoredItem, SafeStorageWriteError> => item.migrated
+		? serialise(key, item.data, item.expires).andThen(raw => writeKey(key, raw)).map(() => item)
+		: Ok<StoredItem, SafeStorageWriteError>(item);
+
+	const migrateKey = (key: string): Option<Result<StoredItem, MigrationError>> => readItem(key).map(result => result
+		.mapErr<MigrationError>(error => error)
+		.andThen(item => writeMigrated(key, item).mapErr<MigrationError>(error => error)));
+
+	const migrateItem = effect('SafeStorage.migrateItem', migrateKey, (key: string) =>
+		readItem(key).map(result => result.mapErr<MigrationError>(error => error)));
+
+	const migrateAll = effect('SafeStorage.migrateAll', () => {
+		const report: SafeStorageMigrationReport<S> = { migrated: [], failed: [] };
+
+		schemaKeys.forEach(key => migrateKey(key).inspect(result => result.caseOf({
+			Ok: ({ migrated }) => migrated && report.migrated.push(key),
+			Err: error => report.failed.push({ key, error })
+		})));
+
+		return report;
+	}, (): SafeStorageMigrationReport<S> => ({ migrated: [], failed: [] }));
+
+	const removeExpired = effect('SafeStorage.removeExpired', removeExpiredKeys, () => []);
+
+	const clear = effect('SafeStorage.clear', () => schemaKeys.forEach(removeKey));
+
+	const readData = <K extends keyof S>(key: K) => readItem(key).map(result => result.map(({ data }) => data as SafeStorageValue<S[K]>));
+
+	const deliver = <K extends keyof S>(key: K, listeners: SafeStorageListeners<SafeStorageValue<S[K]>>) => readItem(key).caseOf({
+		Some: result => result.caseOf({
+			Ok: ({ data }) => listeners.onChange(Some(data as SafeStorageValue<S[K]>)),
+			Err: error => listeners.onInvalidValue(error, storage.getItem(key as string) ?? '')
+		}),
+		None: () => listeners.onChange(None())
+	});
+
+	return {
+		getItem<K extends keyof S>(key: K) {
+			touch(key as string);
+
+			return readData(key);
+		},
+		hasItem(key) {
+			return this.getItem(key).isSome();
+		},
+		setItem(key, value, setOptions) {
+			return this.trySetItem(key, value, setOptions).map(result => {
+				if (result.isErr()) throw result.unwrapErr().error;
+
+				return this;
+			});
+		},
+		trySetItem(key, value, setOptions) {
+			return trySetItem(key as string, value, setOptions).map(result => result.map(() => this));
+		},
+		removeItem(key) {
+			return removeItem(key as string).map(() => this);
+		},
+		migrateItem<K extends keyof S>(key: K) {
+			return migrateItem(key as string).map(item => item.map(result => result.map(({ data }) => data as SafeStorageValue<S[K]>)));
+		},
+		migrateAll,
+		subscribe: (key, listeners) => addChangeListener(changed => {
+			if (changed === key) {
+				deliver(key, listeners);
+			}
+		}),
+		watchAll: listeners => addChangeListener(changed => deliver(changed, {
+			onChange: value => listeners.onChange(changed, value),
+			onInvalidValue: (error, rawValue) => listeners.onInvalidValue(changed, error, rawValue)
+		})),
+		select(key) {
+			let previous: { raw: string | null, value: ReturnType<SafeStorage<S>['getItem']>, expires: number | undefined } | undefined;
+
+			return () => {
+				const raw = storage.getItem(key as string);
+				touch(key as string);
+
+				if (!previous || previous.raw !== raw || (previous.expires !== undefined && previous.expires <= now())) {
+					const item = readItem(key);
+
+					previous = {
+						raw,
+						value: item.map(result => result.map(({ data }) => data as SafeStorageValue<S[typeof key]>)),
+						expires: item.match({ Some: result => result.isOk() ? result.unwrap().expires : undefined, None: () => undefined })
+					};
+				}
+
+				return previous.value;
+			};
+		},
+		removeExpired,
+		clear() {
+			return clear().map(() => this);
+		}
+	};
+};
 
 /**
  * Returns a {@link SafeStorage} based on {@link localStorage} and the given schema.
  */
-export const getSafeLocalStorage = () => getSafeStorage(localStorage);
+export const getSafeLocalStorage = () => getSafeStorage(fromWebStorage(localStorage));
 
 /**
  * Returns a {@link SafeStorage} based on {@link sessionStorage} and the given schema.
  */
-export const getSafeSessionStorage = () => getSafeStorage(sessionStorage);
\ No newline at end of file
+export const getSafeSessionStorage = () => getSafeStorage(fromWebStorage(sessionStorage));
\ No newline at end of file
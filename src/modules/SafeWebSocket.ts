@@ -1,52 +1,253 @@
-import { io, IO, AsyncResult, Err, Ok } from '../monads';
+import { Backoff, effect, io, IO, Err, Ok, Option, Result, Stream, task, Task } from '../monads';
 import {ZodSchema, z} from 'zod';
 import {ParseJSONError, parseJSONWithSchema} from './SafeJSON';
 import { WebSocketServer } from 'ws';
+import type { IncomingMessage, Server } from 'http';
+import { createSafeArray, createSafeMap, SafeArray, SafeMap } from '../datastructures';
+
+export type SafeWebSocketState = 'CONNECTING' | 'OPEN' | 'RECONNECTING' | 'CLOSING' | 'CLOSED';
 
 export type SafeWebSocket<M> = {
 	send: (data: M) => IO<void>,
-	close: () => IO<void>
+	close: () => IO<void>,
+	state: () => SafeWebSocketState
 };
 
 export type SafeWebSocketListeners<S extends ZodSchema> = {
 	onClose: () => void,
 	onMessage: (message: z.infer<S>) => void,
-	onInvalidMessage: (error: ParseJSONError, rawMessage: string) => void
+	onInvalidMessage: (error: ParseJSONError, rawMessage: string) => void,
+	onReconnecting?: (attempt: number, delay: number) => void,
+	onReconnected?: () => void
+};
+
+export type SafeWebSocketReconnectPolicy = {
+	maxAttempts?: number,
+	backoff?: Backoff,
+	shouldReconnect?: (closeCode: number) => boolean,
+	maxQueueSize?: number
+};
+
+export type SafeWebSocketHeartbeat<M> = {
+	interval: number,
+	timeout: number,
+	ping: M,
+	isPong: (rawMessage: string) => boolean
 };
 
 export type SafeWebSocketConfig<S extends ZodSchema, M> = {
 	schema: S,
 	url: string,
 	onConnectionOpened: (ws: SafeWebSocket<M>) => SafeWebSocketListeners<S>,
-	createWebSocket?: (url: string) => WebSocket
+	createWebSocket?: (url: string) => WebSocket,
+	reconnect?: SafeWebSocketReconnectPolicy,
+	heartbeat?: SafeWebSocketHeartbeat<M>
 };
 
+/**
+ * The close code reported to {@link SafeWebSocketReconnectPolicy#shouldReconnect} when a heartbeat goes unanswered.
+ */
+const ABNORMAL_CLOSURE = 1006;
+
+const READY_STATES: SafeWebSocketState[] = ['CONNECTING', 'OPEN', 'CLOSING', 'CLOSED'];
+
+const handleMessage = <S extends ZodSchema>(schema: S, listeners: SafeWebSocketListeners<S>) => (data: string) =>
+	parseJSONWithSchema(schema)(data).caseOf({
+		Ok: listeners.onMessage,
+		Err: error => listeners.onInvalidMessage(error, data)
+	});
+
 const intoSafeWebSocket = <S extends ZodSchema, M>(config: Pick<SafeWebSocketConfig<S, M>, "schema" | "onConnectionOpened">, ws: WebSocket): SafeWebSocket<M> => {
 	const safeWs: SafeWebSocket<M> = {
-		send: data => io(() => ws.send(JSON.stringify(data))),
-		close: () => io(() => ws.close())
+		send: effect('SafeWebSocket.send', (data: M) => ws.send(JSON.stringify(data))),
+		close: effect('SafeWebSocket.close', () => ws.close()),
+		state: () => READY_STATES[ws.readyState] ?? 'CLOSED'
 	};
 
 	const listeners = config.onConnectionOpened(safeWs);
+	const onMessage = handleMessage(config.schema, listeners);
 
 	ws.addEventListener('close', listeners.onClose);
-	ws.addEventListener('message', ({data}) =>
-		parseJSONWithSchema(config.schema)(data).caseOf({
-			Ok: listeners.onMessage,
-			Err: error => listeners.onInvalidMessage(error, data)
-		})
-	);
+	ws.addEventListener('message', ({data}) => onMessage(data));
 
 	return safeWs;
 };
 
-export const createSafeWebSocket = <S extends ZodSchema, M>(config: SafeWebSocketConfig<S, M>): IO<AsyncResult<SafeWebSocket<M>, Event>> => {
-	return io(() => {
+const intoReconnectingSafeWebSocket = <S extends ZodSchema, M>(config: SafeWebSocketConfig<S, M>, initial: WebSocket): SafeWebSocket<M> => {
+	const policy = config.reconnect;
+	const heartbeat = config.heartbeat;
+	const backoff = policy?.backoff ?? Backoff.exponential({ initial: 1000, max: 30000, jitter: true });
+	const shouldReconnect = policy?.shouldReconnect ?? (code => code !== 1000);
+	const maxQueueSize = policy?.maxQueueSize ?? 100;
+
+	const queue: string[] = [];
+	let ws = initial;
+	let state: SafeWebSocketState = 'OPEN';
+	let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+	let closedByUser = false;
+	let stopHeartbeat = () => {};
+
+	const safeWs: SafeWebSocket<M> = {
+		send: effect('SafeWebSocket.send', (data: M) => {
+			const message = JSON.stringify(data);
+
+			if (state === 'OPEN') {
+				ws.send(message);
+			} else if (state === 'CONNECTING' || state === 'RECONNECTING') {
+				queue.push(message);
+
+				// Drops the oldest messages so that the queue never exceeds its maximum size.
+				queue.splice(0, Math.max(0, queue.length - maxQueueSize));
+			}
+		}),
+		close: effect('SafeWebSocket.close', () => {
+			if (closedByUser || state === 'CLOSED') return;
+
+			closedByUser = true;
+			queue.length = 0;
+			clearTimeout(reconnectTimer);
+			stopHeartbeat();
+
+			// An open socket will notify onClose once it has closed, whereas a reconnecting socket has nothing to wait for.
+			if (state === 'OPEN') {
+				state = 'CLOSING';
+			} else {
+				state = 'CLOSED';
+				listeners.onClose();
+			}
+
+			ws.close();
+		}),
+		state: () => state
+	};
+
+	const listeners = config.onConnectionOpened(safeWs);
+	const onMessage = handleMessage(config.schema, listeners);
+
+	const startHeartbeat = (socket: WebSocket, onDead: () => void) => {
+		if (!heartbeat) return () => {};
+
+		let pongTimer: ReturnType<typeof setTimeout> | undefined;
+		const pingTimer = setInterval(() => {
+			socket.send(JSON.stringify(heartbeat.ping));
+
+			if (pongTimer === undefined) {
+				pongTimer = setTimeout(onDead, heartbeat.timeout);
+			}
+		}, heartbeat.interval);
+
+		// Any message proves the connection is still alive, not only pongs.
+		const onAlive = () => {
+			clearTimeout(pongTimer);
+			pongTimer = undefined;
+		};
+		socket.addEventListener('message', onAlive);
+
+		return () => {
+			clearInterval(pingTimer);
+			clearTimeout(pongTimer);
+			socket.removeEventListener('message', onAlive);
+		};
+	};
+
+	const connect = (socket: WebSocket, attempt: number) => {
+		let opened = attempt === 0;
+		let active = true;
+
+		const onOpened = () => {
+			stopHeartbeat = startHeartbeat(socket, () => {
+				if (!active) return;
+
+				active = false;
+				stopHeartbeat();
+				socket.close();
+				onDisconnected(ABNORMAL_CLOSURE);
+			});
+		};
+
+		socket.addEventListener('open', () => {
+			if (!active) return;
+
+			opened = true;
+			state = 'OPEN';
+			onOpened();
+			queue.splice(0).forEach(message => socket.send(message));
+			listeners.onReconnected?.();
+		});
+
+		socket.addEventListener('message', ({data}) => {
+			if (!active || heartbeat?.isPong(data)) return;
+
+			onMessage(data);
+		});
+
+		socket.addEventListener('close', ({code}) => {
+			if (!active) return;
+
+			active = false;
+			stopHeartbeat();
+
+			if (opened) {
+				onDisconnected(code);
+			} else {
+				scheduleReconnect(attempt + 1);
+			}
+		});
+
+		if (opened) {
+			onOpened();
+		}
+	};
+
+	const onDisconnected = (code: number) => {
+		if (state === 'CLOSED') return;
+
+		if (!closedByUser && policy && shouldReconnect(code)) {
+			scheduleReconnect(1);
+		} else {
+			state = 'CLOSED';
+			listeners.onClose();
+		}
+	};
+
+	const scheduleReconnect = (attempt: number) => {
+		if (closedByUser) return;
+
+		if (attempt > (policy?.maxAttempts ?? Infinity)) {
+			state = 'CLOSED';
+			queue.length = 0;
+			listeners.onClose();
+			return;
+		}
+
+		const delay = backoff(attempt);
+		state = 'RECONNECTING';
+		listeners.onReconnecting?.(attempt, delay);
+
+		reconnectTimer = setTimeout(() => {
+			ws = config.createWebSocket?.(config.url) ?? new WebSocket(config.url);
+			connect(ws, attempt);
+		}, delay);
+	};
+
+	connect(initial, 0);
+
+	return safeWs;
+};
+
+export const createSafeWebSocket = <S extends ZodSchema, M>(config: SafeWebSocketConfig<S, M>): Task<SafeWebSocket<M>, Event> => {
+	return task(signal => {
 		const ws = config.createWebSocket?.(config.url) ?? new WebSocket(config.url);
 
 		return new Promise((resolve) => {
+			const onAbort = () => ws.close();
+			signal.addEventListener('abort', onAbort, { once: true });
+
 			ws.addEventListener('open', () => {
-				const safeWs = intoSafeWebSocket(config, ws);
+				signal.removeEventListener('abort', onAbort);
+				const safeWs = config.reconnect || config.heartbeat
+					? intoReconnectingSafeWebSocket(config, ws)
+					: intoSafeWebSocket(config, ws);
 
 				resolve(Ok(safeWs));
 			});
@@ -56,32 +257,177 @@ export const createSafeWebSocket = <S extends ZodSchema, M>(config: SafeWebSocke
 	});
 };
 
-export type SafeWebSocketServerListeners<S extends ZodSchema, M> = {
-	onConnectionOpened: (ws: SafeWebSocket<M>) => SafeWebSocketListeners<S>
+export type SafeWebSocketInvalidMessage = {
+	error: ParseJSONError,
+	rawMessage: string
+};
+
+export type SafeWebSocketMessageStream<S extends ZodSchema> = {
+	messages: Stream<Result<z.infer<S>, SafeWebSocketInvalidMessage>>,
+	listeners: SafeWebSocketListeners<S>
+};
+
+/**
+ * Returns listeners to be returned from {@link SafeWebSocketConfig#onConnectionOpened}, along with a {@link Stream} of
+ * every message they receive. Invalid messages are emitted as an Err, and the Stream completes once the socket closes.
+ */
+export const createMessageStream = <S extends ZodSchema>(): SafeWebSocketMessageStream<S> => {
+	const source = Stream.source<Result<z.infer<S>, SafeWebSocketInvalidMessage>>();
+
+	return {
+		messages: source.stream,
+		listeners: {
+			onClose: source.complete,
+			onMessage: message => source.emit(Ok(message)),
+			onInvalidMessage: (error, rawMessage) => source.emit(Err({ error, rawMessage }))
+		}
+	};
+};
+
+export type SafeWebSocketConnection<M, D> = {
+	id: string,
+	socket: SafeWebSocket<M>,
+	metadata: D
 };
 
-// TODO: It'd be pretty nifty if we could do some util stuff like keep track of all connected clients
-export type SafeWebSocketServerConfig<S extends ZodSchema, M> = {
+export type SafeWebSocketServer<M, D> = {
+	clients: () => SafeMap<string, SafeWebSocketConnection<M, D>>,
+	clientCount: () => number,
+	getClient: (id: string) => Option<SafeWebSocketConnection<M, D>>,
+	updateMetadata: (id: string, updater: (metadata: D) => D) => IO<void>,
+	broadcast: (data: M) => IO<void>,
+	broadcastExcept: (id: string, data: M) => IO<void>,
+	join: (room: string, id: string) => IO<void>,
+	leave: (room: string, id: string) => IO<void>,
+	rooms: () => SafeArray<string>,
+	roomMembers: (room: string) => SafeArray<SafeWebSocketConnection<M, D>>,
+	broadcastToRoom: (room: string, data: M, exceptId?: string) => IO<void>,
+	close: () => Task<void, Error>
+};
+
+export type SafeWebSocketServerListeners<S extends ZodSchema, M, D = undefined> = {
+	onConnectionOpened: (ws: SafeWebSocket<M>, connection: SafeWebSocketConnection<M, D>, server: SafeWebSocketServer<M, D>) => SafeWebSocketListeners<S>,
+	onConnectionClosed?: (connection: SafeWebSocketConnection<M, D>, server: SafeWebSocketServer<M, D>) => void,
+
+	/**
+	 * Called with any error the server emits once it is listening. If omitted, the server is closed instead.
+	 */
+	onError?: (error: Error, server: SafeWebSocketServer<M, D>) => void
+};
+
+/**
+ * Retrieves the metadata of each connection from the request that opened it. It may only be omitted when undefined is
+ * valid metadata, in which case every connection's metadata is undefined.
+ */
+export type SafeWebSocketMetadataConfig<D> = { getMetadata?: (request: IncomingMessage) => D }
+	& (undefined extends D ? unknown : { getMetadata: (request: IncomingMessage) => D });
+
+export type SafeWebSocketServerConfig<S extends ZodSchema, M, D = undefined> = {
 	schema: S,
-	port: number,
-	onListening: () => SafeWebSocketServerListeners<S, M>
-}
+	onListening: (server: SafeWebSocketServer<M, D>) => SafeWebSocketServerListeners<S, M, D>
+} & SafeWebSocketMetadataConfig<D> & ({ port: number } | { server: Server });
 
-export const createSafeWebSocketServer = <S extends ZodSchema, M>(config: SafeWebSocketServerConfig<S, M>): IO<AsyncResult<{}, Error>> => {
-	return io(() => {
+export const createSafeWebSocketServer = <S extends ZodSchema, M, D = undefined>(config: SafeWebSocketServerConfig<S, M, D>): Task<SafeWebSocketServer<M, D>, Error> => {
+	return task(signal => {
 		return new Promise(resolve => {
-			const wss = new WebSocketServer({ port: config.port });
+			const wss = 'server' in config ? new WebSocketServer({ server: config.server }) : new WebSocketServer({ port: config.port });
+			const onAbort = () => wss.close();
+			signal.addEventListener('abort', onAbort, { once: true });
+
+			// SafeWebSocketMetadataConfig only allows getMetadata to be omitted when undefined is valid metadata.
+			const getMetadata = config.getMetadata ?? (() => undefined as D);
+			let clients = createSafeMap<string, SafeWebSocketConnection<M, D>>();
+			const rooms = new Map<string, Set<string>>();
+			let nextId = 0;
+
+			const sendToAll = (connections: Iterable<SafeWebSocketConnection<M, D>>, data: M, exceptId?: string) => io(() => {
+				for (const connection of connections) {
+					if (connection.id !== exceptId) {
+						connection.socket.send(data).UNSAFE_run();
+					}
+				}
+			});
+
+			const server: SafeWebSocketServer<M, D> = {
+				clients: () => clients,
+				clientCount: () => clients.size,
+				getClient: id => clients.get(id),
+				updateMetadata: (id, updater) => io(() => {
+					clients.get(id).inspect(connection => {
+						clients = clients.set(id, { ...connection, metadata: updater(connection.metadata) });
+					});
+				}),
+				broadcast: data => sendToAll(clients.values(), data),
+				broadcastExcept: (id, data) => sendToAll(clients.values(), data, id),
+				join: (room, id) => io(() => {
+					if (!clients.has(id)) return;
+
+					const members = rooms.get(room) ?? new Set<string>();
+					members.add(id);
+					rooms.set(room, members);
+				}),
+				leave: (room, id) => io(() => {
+					const members = rooms.get(room);
 
-			wss.on('error', e => resolve(Err(e)));
-			wss.on('listening', () => {
-				const listeners = config.onListening();
+					members?.delete(id);
 
-				wss.on('connection', ws => {
-					intoSafeWebSocket({ schema: config.schema, onConnectionOpened: listeners.onConnectionOpened }, ws as unknown as WebSocket);
+					if (members?.size === 0) {
+						rooms.delete(room);
+					}
+				}),
+				rooms: () => createSafeArray(rooms.keys()),
+				roomMembers: room => createSafeArray(rooms.get(room) ?? [])
+					.flatMap(id => clients.get(id).match({ Some: connection => [connection], None: () => [] })),
+				broadcastToRoom: (room, data, exceptId) => io(() => sendToAll(server.roomMembers(room), data, exceptId).UNSAFE_run()),
+				close: () => task(() => new Promise(resolveClose => {
+					wss.clients.forEach(client => client.close(1001));
+					wss.close(error => resolveClose(error ? Err<Error, void>(error) : Ok<void, Error>(undefined)));
+				}))
+			};
+
+			const onStartError = (error: Error) => resolve(Err(error));
+
+			const onListening = () => {
+				signal.removeEventListener('abort', onAbort);
+				const listeners = config.onListening(server);
+
+				wss.off('error', onStartError);
+				wss.on('error', error => listeners.onError ? listeners.onError(error, server) : server.close().UNSAFE_run());
+
+				wss.on('connection', (socket, request) => {
+					const id = String(nextId++);
+					const ws = socket as unknown as WebSocket;
+
+					intoSafeWebSocket({
+						schema: config.schema,
+						onConnectionOpened: safeWs => {
+							const connection: SafeWebSocketConnection<M, D> = { id, socket: safeWs, metadata: getMetadata(request) };
+							clients = clients.set(id, connection);
+
+							return listeners.onConnectionOpened(safeWs, connection, server);
+						}
+					}, ws);
+
+					ws.addEventListener('close', () => {
+						const connection = clients.get(id);
+						clients = clients.delete(id);
+						rooms.forEach((_, room) => server.leave(room, id).UNSAFE_run());
+
+						connection.inspect(closed => listeners.onConnectionClosed?.(closed, server));
+					});
 				});
 
-				resolve(Ok({}));
-			})
+				resolve(Ok(server));
+			};
+
+			wss.on('error', onStartError);
+
+			// When attaching to an existing server that is already listening, no listening event will be emitted.
+			if ('server' in config && config.server.listening) {
+				onListening();
+			} else {
+				wss.on('listening', onListening);
+			}
 		});
 	});
 };
\ No newline at end of file
@@ -1,4 +1,6 @@
-import { io, IO } from '../monads';
+import { AsyncResult, effect, Err, io, IO, RetryPolicy, stream, Stream, Task, TaskAbortedError } from '../monads';
+import { retrying } from '../monads/Retry';
+import { realScheduler, Scheduler } from './Scheduler';
 
 /**
  * Represents safer versions of various common {@link Window} utilities, generally involving {@link IO}.
@@ -20,25 +22,170 @@ export type SafeWindow = {
 	 * @param fn The function to be called after the delay.
 	 * @param delay The delay to wait until the function is called.
 	 */
-	setTimeout: (fn: () => void, delay: number) => IO<{ clear: IO<void> }>
+	setTimeout: (fn: () => void, delay: number) => IO<{ clear: IO<void> }>,
+
+	/**
+	 * Returns a {@link Stream} that emits the number of ticks so far, starting from 1, every given unit of time. An
+	 * interval is started for each subscription, and cleared once it unsubscribes.
+	 *
+	 * @param delay The interval between each tick.
+	 */
+	ticks: (delay: number) => Stream<number>,
+
+	/**
+	 * Returns an {@link IO} that will call the given function with the current time before the next repaint, further
+	 * returning an object to cancel it, no longer requiring {@link Window#cancelAnimationFrame}.
+	 *
+	 * @param fn The function to be called before the next repaint.
+	 */
+	requestAnimationFrame: (fn: (timestamp: number) => void) => IO<{ clear: IO<void> }>,
+
+	/**
+	 * Returns an {@link IO} that will create a debounced version of the given function, which only calls the given
+	 * function once it has not been called for the given delay, with the latest arguments. Clearing it cancels any
+	 * pending call.
+	 *
+	 * @example
+	 * const search = safeWindow.debounce((query: string) => fetchResults(query), 300).UNSAFE_run();
+	 * input.addEventListener('input', () => search.call(input.value));
+	 *
+	 * @param fn The function to be debounced.
+	 * @param delay The delay without calls to wait until the function is called.
+	 */
+	debounce: <A extends unknown[]>(fn: (...args: A) => void, delay: number) => IO<{ call: (...args: A) => void, clear: IO<void> }>,
+
+	/**
+	 * Returns an {@link IO} that will create a throttled version of the given function, which calls the given function
+	 * and then ignores every call for the given interval. Clearing it ends the current interval.
+	 *
+	 * @param fn The function to be throttled.
+	 * @param interval The interval to ignore calls for after each call.
+	 */
+	throttle: <A extends unknown[]>(fn: (...args: A) => void, interval: number) => IO<{ call: (...args: A) => void, clear: IO<void> }>,
+
+	/**
+	 * Returns an {@link IO} that will begin waiting for the given delay, further returning a Promise that resolves to
+	 * whether the delay elapsed, which will resolve to false if cleared first.
+	 *
+	 * @example
+	 * const { elapsed } = safeWindow.sleep(1000).UNSAFE_run();
+	 * await elapsed;
+	 *
+	 * @param delay The delay to wait.
+	 */
+	sleep: (delay: number) => IO<{ elapsed: Promise<boolean>, clear: IO<void> }>,
+
+	/**
+	 * Returns an {@link IO} that will run the given {@link Task}, running it again if it fails according to the given
+	 * policy like {@link Task#retry}, but waiting with this SafeWindow's {@link Scheduler}. Clearing it aborts the
+	 * current attempt and any further retries, resolving to an Err of {@link TaskAbortedError}.
+	 *
+	 * @param task The Task to be run.
+	 * @param policy The policy that determines when and how often to retry.
+	 */
+	retryWithBackoff: <T, E>(task: Task<T, E>, policy: RetryPolicy<E>) => IO<{ result: AsyncResult<T, E | TaskAbortedError>, clear: IO<void> }>
 };
 
+/**
+ * Returns a Promise that resolves to whether the given delay elapsed on the given scheduler without the given signal
+ * being aborted.
+ */
+const wait = (scheduler: Scheduler, delay: number, signal: AbortSignal) => new Promise<boolean>(resolve => {
+	if (signal.aborted) {
+		resolve(false);
+		return;
+	}
+
+	const onAbort = () => {
+		cancel();
+		resolve(false);
+	};
+	const cancel = scheduler.setTimeout(() => {
+		signal.removeEventListener('abort', onAbort);
+		resolve(true);
+	}, delay);
+
+	signal.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * What each timer returns while it is being recorded rather than scheduled; see `recordIO` in `safer-ts/testing`.
+ */
+const unscheduled = () => ({ clear: io(() => {}) });
+
+/**
+ * What debounce and throttle return while being recorded, whose call never calls the given function.
+ */
+const uncallable = () => ({ call: () => {}, ...unscheduled() });
+
 /**
  * Creates an instance of {@link SafeWindow}.
+ *
+ * @param scheduler The {@link Scheduler} every timer will be scheduled with. Defaults to the global timers; use a
+ * {@link VirtualScheduler} in tests.
  */
-export const getSafeWindow = (): SafeWindow => ({
-	setInterval: (fn, delay) => io(() => {
-		const id = setInterval(fn, delay);
+export const getSafeWindow = (scheduler: Scheduler = realScheduler): SafeWindow => ({
+	setInterval: effect('SafeWindow.setInterval', (fn: () => void, delay: number) => ({
+		clear: io(scheduler.setInterval(fn, delay))
+	}), unscheduled),
+	setTimeout: effect('SafeWindow.setTimeout', (fn: () => void, delay: number) => ({
+		clear: io(scheduler.setTimeout(fn, delay))
+	}), unscheduled),
+	ticks: delay => stream(observer => {
+		let count = 0;
 
 		return {
-			clear: io(() => clearInterval(id))
+			removeListener: scheduler.setInterval(() => observer.next(++count), delay)
 		};
 	}),
-	setTimeout: (fn, delay) => io(() => {
-		const id = setTimeout(fn, delay);
+	requestAnimationFrame: effect('SafeWindow.requestAnimationFrame', (fn: (timestamp: number) => void) => ({
+		clear: io(scheduler.requestAnimationFrame(fn))
+	}), unscheduled),
+	debounce: <A extends unknown[]>(fn: (...args: A) => void, delay: number) => effect('SafeWindow.debounce', (debounced: (...args: A) => void, ms: number) => {
+		let cancel = () => {};
+
+		return {
+			call: (...args: A) => {
+				cancel();
+				cancel = scheduler.setTimeout(() => debounced(...args), ms);
+			},
+			clear: io(() => cancel())
+		};
+	}, uncallable)(fn, delay),
+	throttle: <A extends unknown[]>(fn: (...args: A) => void, interval: number) => effect('SafeWindow.throttle', (throttled: (...args: A) => void, ms: number) => {
+		let cancel: (() => void) | undefined;
+
+		return {
+			call: (...args: A) => {
+				if (cancel) return;
+
+				cancel = scheduler.setTimeout(() => cancel = undefined, ms);
+				throttled(...args);
+			},
+			clear: io(() => {
+				cancel?.();
+				cancel = undefined;
+			})
+		};
+	}, uncallable)(fn, interval),
+	sleep: effect('SafeWindow.sleep', (delay: number) => {
+		const controller = new AbortController();
+
+		return {
+			elapsed: wait(scheduler, delay, controller.signal),
+			clear: io(() => controller.abort())
+		};
+	}, () => ({ elapsed: Promise.resolve(true), ...unscheduled() })),
+	retryWithBackoff: <T, E>(task: Task<T, E>, policy: RetryPolicy<E>) => effect('SafeWindow.retryWithBackoff', (retriedTask: Task<T, E>, retryPolicy: RetryPolicy<E>) => {
+		const controller = new AbortController();
+		const retried = Task.fromAsyncResult(retrying(retriedTask._fn, retryPolicy, (ms, signal) => wait(scheduler, ms, signal)));
 
 		return {
-			clear: io(() => clearTimeout(id))
+			result: retried.UNSAFE_run(controller.signal),
+			clear: io(() => controller.abort())
 		};
-	})
+	}, () => ({
+		result: Promise.resolve(Err<E | TaskAbortedError, T>({ type: 'ABORTED', reason: undefined })),
+		...unscheduled()
+	}))(task, policy)
 });
\ No newline at end of file
@@ -0,0 +1,168 @@
+/**
+ * Schedules functions to be called in the future, which a {@link SafeWindow} is built on. Every function returns a
+ * function that will cancel what was scheduled.
+ */
+export type Scheduler = {
+	/**
+	 * Returns the current time in milliseconds.
+	 */
+	now: () => number,
+
+	/**
+	 * Calls the given function once after the given delay.
+	 *
+	 * @param fn The function to be called.
+	 * @param delay The delay in milliseconds to wait until the function is called.
+	 */
+	setTimeout: (fn: () => void, delay: number) => () => void,
+
+	/**
+	 * Calls the given function repeatedly, waiting the given interval between each call.
+	 *
+	 * @param fn The function to be called.
+	 * @param interval The interval in milliseconds between each call.
+	 */
+	setInterval: (fn: () => void, interval: number) => () => void,
+
+	/**
+	 * Calls the given function with the current time before the next repaint.
+	 *
+	 * @param fn The function to be called.
+	 */
+	requestAnimationFrame: (fn: (timestamp: number) => void) => () => void
+};
+
+/**
+ * A {@link Scheduler} whose time only passes when told to, allowing anything built on it to be tested
+ * deterministically without waiting.
+ *
+ * NOTE: Functions are called synchronously while time is advanced. Any Promise continuations they cause, such as
+ * within {@link SafeWindow#retryWithBackoff}, will only run once the current code awaits.
+ */
+export type VirtualScheduler = Scheduler & {
+	/**
+	 * Advances time by the given duration, calling every function that was scheduled within it in order.
+	 *
+	 * @param ms The duration in milliseconds to advance by.
+	 */
+	advanceBy: (ms: number) => void,
+
+	/**
+	 * Advances time until nothing is scheduled, calling every function in order. THIS WILL THROW AN ERROR if
+	 * functions keep being scheduled, such as by an interval that is never cleared.
+	 */
+	runAll: () => void,
+
+	/**
+	 * Returns the amount of functions currently scheduled.
+	 */
+	pending: () => number
+};
+
+/**
+ * The approximate duration of a frame, used wherever requestAnimationFrame is unavailable.
+ */
+const FRAME_DURATION = 16;
+
+/**
+ * How many functions {@link VirtualScheduler#runAll} will call before giving up.
+ */
+const MAX_RUN_ALL_CALLS = 10000;
+
+/**
+ * A {@link Scheduler} that uses the global timers. requestAnimationFrame falls back to a timeout outside of browsers.
+ */
+export const realScheduler: Scheduler = {
+	now: () => Date.now(),
+	setTimeout: (fn, delay) => {
+		const id = setTimeout(fn, delay);
+
+		return () => clearTimeout(id);
+	},
+	setInterval: (fn, interval) => {
+		const id = setInterval(fn, interval);
+
+		return () => clearInterval(id);
+	},
+	requestAnimationFrame: fn => {
+		if (typeof requestAnimationFrame !== 'function') return realScheduler.setTimeout(() => fn(Date.now()), FRAME_DURATION);
+
+		const id = requestAnimationFrame(fn);
+
+		return () => cancelAnimationFrame(id);
+	}
+};
+
+type VirtualTimer = { id: number, time: number, fn: () => void, interval?: number };
+
+/**
+ * Creates a new {@link VirtualScheduler}.
+ *
+ * @example
+ * const scheduler = createVirtualScheduler();
+ * const safeWindow = getSafeWindow(scheduler);
+ *
+ * safeWindow.setTimeout(onTimeout, 1000).UNSAFE_run();
+ * scheduler.advanceBy(1000); // onTimeout is called
+ *
+ * @param start The time in milliseconds the scheduler will start at. Defaults to 0.
+ */
+export const createVirtualScheduler = (start = 0): VirtualScheduler => {
+	let now = start;
+	let nextId = 0;
+	let timers: VirtualTimer[] = [];
+
+	const schedule = (fn: () => void, delay: number, interval?: number) => {
+		const timer: VirtualTimer = { id: nextId++, time: now + Math.max(0, delay), fn, interval };
+		timers.push(timer);
+
+		return () => {
+			timers = timers.filter(existing => existing !== timer);
+		};
+	};
+
+	// Timers due at the same time are called in the order they were scheduled, like the global timers.
+	const nextTimer = () => timers.reduce<VirtualTimer | undefined>((earliest, timer) =>
+		!earliest || timer.time < earliest.time || (timer.time === earliest.time && timer.id < earliest.id) ? timer : earliest, undefined);
+
+	const callNext = (until: number) => {
+		const timer = nextTimer();
+
+		if (!timer || timer.time > until) return false;
+
+		now = timer.time;
+
+		if (timer.interval === undefined) {
+			timers = timers.filter(existing => existing !== timer);
+		} else {
+			// Intervals keep their place in the order, but never repeat without time passing.
+			timer.time += Math.max(1, timer.interval);
+		}
+
+		timer.fn();
+
+		return true;
+	};
+
+	return {
+		now: () => now,
+		setTimeout: (fn, delay) => schedule(fn, delay),
+		setInterval: (fn, interval) => schedule(fn, interval, interval),
+		requestAnimationFrame: fn => schedule(() => fn(now), FRAME_DURATION),
+		advanceBy: ms => {
+			const until = now + ms;
+
+			while (callNext(until));
+
+			now = until;
+		},
+		runAll: () => {
+			for (let calls = 0; callNext(Infinity); calls++) {
+				if (calls >= MAX_RUN_ALL_CALLS) {
+					throw new Error(`Aborted runAll after ${MAX_RUN_ALL_CALLS} calls, as functions keep being scheduled!`);
+				}
+			}
+		},
+		pending: () => timers.length
+	};
+};
\ No newline at end of file
@@ -0,0 +1,145 @@
+import type { Task } from '../monads';
+import { Listener } from '../types';
+
+/**
+ * Represents a synchronous key-value store of strings that a {@link SafeStorage} can be backed by.
+ */
+export type StorageBackend = {
+	/**
+	 * Returns the value at the given key, or null if there is no value.
+	 *
+	 * @param key The key to retrieve.
+	 */
+	getItem: (key: string) => string | null,
+
+	/**
+	 * Assigns the given value to the given key.
+	 *
+	 * @param key The key to assign to.
+	 * @param value The value to be assigned.
+	 */
+	setItem: (key: string, value: string) => void,
+
+	/**
+	 * Removes the value at the given key, if there is one.
+	 *
+	 * @param key The key to remove.
+	 */
+	removeItem: (key: string) => void,
+
+	/**
+	 * Returns every key that currently has a value.
+	 */
+	keys: () => string[],
+
+	/**
+	 * Optionally registers a listener that will be called whenever a key is changed from outside of this backend, such
+	 * as by another tab. The key will be null if every key was cleared.
+	 *
+	 * @param listener The listener that will be called with the key that changed.
+	 */
+	subscribe?: (listener: (key: string | null) => void) => Listener
+};
+
+/**
+ * A {@link StorageBackend} whose changes are persisted asynchronously, such as the one created by
+ * `createAsyncJSONFileBackend` in `safer-ts/node`.
+ */
+export type AsyncStorageBackend = StorageBackend & {
+	/**
+	 * Returns a Task that will resolve once every change made so far has been persisted, failing with the first error
+	 * encountered while persisting since the last flush.
+	 */
+	flush: () => Task<void, Error>
+};
+
+/**
+ * Returns a {@link StorageBackend} based on the given DOM Storage, such as {@link localStorage}.
+ *
+ * @param storage The Storage to be used.
+ */
+export const fromWebStorage = (storage: Storage): StorageBackend => ({
+	getItem: key => storage.getItem(key),
+	setItem: (key, value) => storage.setItem(key, value),
+	removeItem: key => storage.removeItem(key),
+	keys: () => {
+		const keys: string[] = [];
+
+		for (let i = 0; i < storage.length; i++) {
+			const key = storage.key(i);
+
+			if (key !== null) {
+				keys.push(key);
+			}
+		}
+
+		return keys;
+	},
+	subscribe: listener => {
+		// Browsers only dispatch the storage event to other tabs, so changes made by this tab are never reported.
+		const onStorage = (event: StorageEvent) => {
+			if (event.storageArea === storage) {
+				listener(event.key);
+			}
+		};
+
+		window.addEventListener('storage', onStorage);
+
+		return {
+			removeListener: () => window.removeEventListener('storage', onStorage)
+		};
+	}
+});
+
+/**
+ * Returns a {@link StorageBackend} that keeps every value in memory. Useful for Node and for tests.
+ *
+ * @param initial Any values the backend should start with.
+ */
+export const createMemoryBackend = (initial: Record<string, string> = {}): StorageBackend => {
+	const values = new Map(Object.keys(initial).map(key => [key, initial[key] as string]));
+
+	return {
+		getItem: key => values.get(key) ?? null,
+		setItem: (key, value) => {
+			values.set(key, value);
+		},
+		removeItem: key => {
+			values.delete(key);
+		},
+		keys: () => Array.from(values.keys())
+	};
+};
+
+/**
+ * Returns a {@link StorageBackend} that prefixes every key of the given backend, so that multiple SafeStorages can
+ * share a single backend without their keys colliding. Only keys with the prefix will be visible through the returned
+ * backend.
+ *
+ * @example
+ * const backend = fromWebStorage(localStorage);
+ * const settings = getSafeStorage(prefixBackend(backend, 'settings:'))({ theme: z.string() });
+ * const cache = getSafeStorage(prefixBackend(backend, 'cache:'))({ theme: z.string() });
+ *
+ * @param backend The backend to be wrapped.
+ * @param prefix The prefix that will be added to every key.
+ */
+export const prefixBackend = (backend: StorageBackend, prefix: string): StorageBackend => {
+	const { subscribe } = backend;
+
+	return {
+		getItem: key => backend.getItem(prefix + key),
+		setItem: (key, value) => backend.setItem(prefix + key, value),
+		removeItem: key => backend.removeItem(prefix + key),
+		keys: () => backend.keys()
+			.filter(key => key.startsWith(prefix))
+			.map(key => key.slice(prefix.length)),
+		subscribe: subscribe && (listener => subscribe(key => {
+			if (key === null) {
+				listener(null);
+			} else if (key.startsWith(prefix)) {
+				listener(key.slice(prefix.length));
+			}
+		}))
+	};
+};
\ No newline at end of file
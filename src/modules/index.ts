@@ -1,5 +1,9 @@
 export * from "./SafeDOM";
+export * from "./SafeFetch";
 export * from "./SafeJSON";
+export * from "./SafeRpc";
 export * from "./SafeStorage";
 export * from "./SafeWebSocket";
-export * from "./SafeWindow";
\ No newline at end of file
+export * from "./SafeWindow";
+export * from "./Scheduler";
+export * from "./StorageBackend";
\ No newline at end of file
@@ -0,0 +1,33 @@
+/**
+ * Determines how effects created with {@link effect} are performed, given the name and arguments of the effect, a
+ * function that would perform it for real, and a function that returns what it would have returned instead.
+ *
+ * NOTE: This module is internal to the library, and is deliberately not exported from the monads index.
+ */
+export type EffectHandler = (name: string, args: unknown[], perform: () => unknown, simulate: () => unknown) => unknown;
+
+let current: EffectHandler | undefined;
+
+/**
+ * Performs the given effect through the current {@link EffectHandler}, or for real if there is none.
+ */
+export const performEffect = (name: string, args: unknown[], perform: () => unknown, simulate: () => unknown) =>
+	current ? current(name, args, perform, simulate) : perform();
+
+/**
+ * Calls the given function, performing every effect through the given handler until it returns, including those of
+ * any IO run within it.
+ *
+ * @param handler The handler that will perform each effect.
+ * @param fn The function to be called.
+ */
+export const withEffectHandler = <T>(handler: EffectHandler, fn: () => T): T => {
+	const previous = current;
+	current = handler;
+
+	try {
+		return fn();
+	} finally {
+		current = previous;
+	}
+};
\ No newline at end of file
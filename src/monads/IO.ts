@@ -1,3 +1,27 @@
+import { performEffect } from './EffectHandler';
+import { Err, Ok, Result } from './Result';
+
+/**
+ * Describes how an {@link IO} will be evaluated. Rather than nesting closures, chained IOs are represented as data so
+ * that they can be evaluated in a loop by {@link runIO}, keeping arbitrarily long chains stack-safe.
+ */
+type IOInstruction =
+	| { type: 'sync', fn: () => unknown }
+	| { type: 'effect', name: string, args: unknown[], fn: () => unknown, simulate: () => unknown }
+	| { type: 'map', source: IO<unknown>, mapper: (data: unknown) => unknown }
+	| { type: 'chain', source: IO<unknown>, chainer: (data: unknown) => IO<unknown> }
+	| { type: 'attempt', source: IO<unknown> }
+	| { type: 'ensuring', source: IO<unknown>, finalizer: IO<unknown> };
+
+/**
+ * The work remaining after the current IO has been evaluated.
+ */
+type IOFrame =
+	| { type: 'map', mapper: (data: unknown) => unknown }
+	| { type: 'chain', chainer: (data: unknown) => IO<unknown> }
+	| { type: 'attempt' }
+	| { type: 'ensuring', finalizer: IO<unknown> };
+
 /**
  * Represents a function that, when executed, will cause side effects. This could include things like networking,
  * filesystem access, etc.
@@ -7,14 +31,17 @@
  */
 export type IO<T> = {
 	/**
-	 * The function to be executed. NOTE: This is an internal reference, and should never be called outside of library
-	 * code. Use {@link IO#UNSAFE_run} instead to execute this IO.
+	 * The instruction describing how this IO will be evaluated. NOTE: This is an internal reference, and should never
+	 * be used outside of library code. Use {@link IO#UNSAFE_run} instead to execute this IO.
 	 */
-	_fn: () => T,
+	_instruction: IOInstruction,
 
 	/**
 	 * Runs this IO, and returns the return value of the evaluated function. This should only be used at the top
 	 * level of a program, as this may cause side effects to be emitted, e.g. networking, filesystem access, etc.
+	 *
+	 * Chains of any length are evaluated without growing the call stack. Any error thrown while running will be
+	 * rethrown; use {@link IO#attempt} to capture errors instead.
 	 */
 	UNSAFE_run: () => T,
 
@@ -38,23 +65,238 @@ export type IO<T> = {
 	 *
 	 * @param chainer The function that will be used to generate a new IO.
 	 */
-	andThen: <U>(chainer: (data: T) => IO<U>) => IO<U>
+	andThen: <U>(chainer: (data: T) => IO<U>) => IO<U>,
+
+	/**
+	 * Returns a new IO that captures any error thrown while running this IO, resolving to an Err of the thrown error
+	 * rather than throwing it.
+	 */
+	attempt: () => IO<Result<T, unknown>>,
+
+	/**
+	 * Returns a new IO that will always run the given finalizer once this IO has run, regardless of whether it threw
+	 * an error. Useful for releasing resources.
+	 *
+	 * @param finalizer The IO to be run once this IO has run.
+	 */
+	ensuring: (finalizer: IO<unknown>) => IO<T>,
+
+	/**
+	 * Allows this IO to be used with `yield*` inside of {@link IO.gen}, evaluating to the return value of this IO once
+	 * it has been run.
+	 */
+	[Symbol.iterator]: () => Generator<IO<unknown>, T, unknown>
 };
 
 /**
- * Creates a new IO with the given fn.
- *
- * @param fn The function to be run that will produce a side effect.
+ * Evaluates the given IO in a loop, keeping track of the remaining work in a stack of {@link IOFrame}s rather than on
+ * the call stack.
  */
-export const io = <T>(fn: () => T): IO<T> => ({
-	_fn: fn,
+const runIO = <T>(root: IO<T>): T => {
+	const frames: IOFrame[] = [];
+	let current: IO<unknown> | undefined = root;
+	let value: unknown;
+	let failure: { error: unknown } | undefined;
+
+	for (;;) {
+		if (current) {
+			const instruction: IOInstruction = current._instruction;
+			current = undefined;
+
+			switch (instruction.type) {
+				case 'sync':
+					try {
+						value = instruction.fn();
+					} catch (error) {
+						failure = { error };
+					}
+					break;
+				case 'effect':
+					try {
+						value = performEffect(instruction.name, instruction.args, instruction.fn, instruction.simulate);
+					} catch (error) {
+						failure = { error };
+					}
+					break;
+				case 'map':
+					frames.push({ type: 'map', mapper: instruction.mapper });
+					current = instruction.source;
+					break;
+				case 'chain':
+					frames.push({ type: 'chain', chainer: instruction.chainer });
+					current = instruction.source;
+					break;
+				case 'attempt':
+					frames.push({ type: 'attempt' });
+					current = instruction.source;
+					break;
+				case 'ensuring':
+					frames.push({ type: 'ensuring', finalizer: instruction.finalizer });
+					current = instruction.source;
+					break;
+			}
+
+			continue;
+		}
+
+		const frame = frames.pop();
+
+		if (!frame) {
+			if (failure) throw failure.error;
+
+			return value as T;
+		}
+
+		switch (frame.type) {
+			case 'map':
+				if (failure) break;
+
+				try {
+					value = frame.mapper(value);
+				} catch (error) {
+					failure = { error };
+				}
+				break;
+			case 'chain':
+				if (failure) break;
+
+				try {
+					current = frame.chainer(value);
+				} catch (error) {
+					failure = { error };
+				}
+				break;
+			case 'attempt':
+				value = failure ? Err(failure.error) : Ok(value);
+				failure = undefined;
+				break;
+			case 'ensuring':
+				try {
+					runIO(frame.finalizer);
+				} catch (error) {
+					failure = { error };
+				}
+				break;
+		}
+	}
+};
+
+const createIO = <T>(instruction: IOInstruction): IO<T> => ({
+	_instruction: instruction,
 	UNSAFE_run() {
-		return this._fn();
+		return runIO(this);
 	},
 	map<U>(mapper: (data: T) => U) {
-		return io(() => mapper(this.UNSAFE_run()));
+		return createIO<U>({ type: 'map', source: this, mapper: mapper as (data: unknown) => unknown });
 	},
 	andThen<U>(chainer: (data: T) => IO<U>) {
-		return io(() => chainer(this.UNSAFE_run()).UNSAFE_run());
+		return createIO<U>({ type: 'chain', source: this, chainer: chainer as (data: unknown) => IO<unknown> });
+	},
+	attempt() {
+		return createIO<Result<T, unknown>>({ type: 'attempt', source: this });
+	},
+	ensuring(finalizer: IO<unknown>) {
+		return createIO<T>({ type: 'ensuring', source: this, finalizer });
+	},
+	*[Symbol.iterator]() {
+		return (yield this) as T;
 	}
-});
\ No newline at end of file
+});
+
+/**
+ * Creates a new IO with the given fn.
+ *
+ * @param fn The function to be run that will produce a side effect.
+ */
+export const io = <T>(fn: () => T): IO<T> => createIO({ type: 'sync', fn });
+
+/**
+ * Returns a function that creates IOs which will call the given function with the given arguments, like {@link io}.
+ * Unlike io, the effect is named, so that it can be recorded rather than performed in tests; see `recordIO` in
+ * `safer-ts/testing`. While being recorded, the effect returns the result of the given simulate function instead.
+ *
+ * @example
+ * const saveConfig = effect('saveConfig', (contents: string) => writeFileSync('config.json', contents));
+ * saveConfig('{}').UNSAFE_run();
+ *
+ * @param name The name of the effect, which should be unique.
+ * @param fn The function that will perform the effect.
+ * @param simulate The function that will return what the effect would have returned. Defaults to returning undefined,
+ * which should only be relied on by effects that return nothing.
+ */
+export const effect = <A extends unknown[], T>(name: string, fn: (...args: A) => T, simulate: (...args: A) => T = () => undefined as T) => (...args: A): IO<T> =>
+	createIO({ type: 'effect', name, args, fn: () => fn(...args), simulate: () => simulate(...args) });
+
+type IOData<I> = I extends IO<infer T> ? T : never;
+
+/**
+ * Utilities that operate on {@link IO}s as a whole.
+ */
+export const IO = {
+	/**
+	 * Allows for chaining multiple IOs together without nesting. Within the given generator function, `yield*` an IO
+	 * to run it and retrieve its return value. Nothing is run until the returned IO is itself run.
+	 *
+	 * @example
+	 * const program = IO.gen(function* () {
+	 *     const name = yield* getUserName('1234');
+	 *     yield* saveToConfig(name);
+	 *
+	 *     return name;
+	 * });
+	 *
+	 * @param fn The generator function that will yield IOs, and return the final value.
+	 */
+	gen: <T>(fn: () => Generator<IO<unknown>, T, unknown>): IO<T> => io(fn).andThen(generator => {
+		// Each yielded IO is chained rather than run, so that it is evaluated by the same loop as this IO.
+		const resume = (step: IteratorResult<IO<unknown>, T>): IO<T> => step.done
+			? io(() => step.value)
+			: step.value.attempt().andThen(result => resume(result.caseOf({
+				Ok: value => generator.next(value),
+				// Allows the generator to handle errors thrown by an IO with a regular try / catch.
+				Err: error => generator.throw(error)
+			})));
+
+		return resume(generator.next());
+	}),
+
+	/**
+	 * Returns an IO that will acquire a resource, use it, and then always release it, regardless of whether using it
+	 * threw an error.
+	 *
+	 * @example
+	 * IO.bracket(
+	 *     openFile('config.json'),
+	 *     file => readContents(file),
+	 *     file => closeFile(file)
+	 * );
+	 *
+	 * @param acquire The IO that will acquire the resource.
+	 * @param use The function that will use the resource.
+	 * @param release The function that will release the resource.
+	 */
+	bracket: <R, T>(acquire: IO<R>, use: (resource: R) => IO<T>, release: (resource: R) => IO<unknown>): IO<T> =>
+		acquire.andThen(resource => io(() => resource).andThen(use).ensuring(release(resource))),
+
+	/**
+	 * Combines the given IOs into a single IO that runs each of them in order, returning every return value. Tuples
+	 * retain the type of each element.
+	 *
+	 * @param ios The IOs to be run.
+	 */
+	sequence: <I extends readonly IO<unknown>[]>(ios: readonly [...I]): IO<{ -readonly [K in keyof I]: IOData<I[K]> }> =>
+		ios.reduce<IO<unknown[]>>((previous, current) => previous.andThen(values => current.map(value => {
+			values.push(value);
+			return values;
+		})), io(() => [])) as IO<{ -readonly [K in keyof I]: IOData<I[K]> }>,
+
+	/**
+	 * Maps each of the given items into an IO, returning an IO that runs each of them in order and returns every
+	 * return value.
+	 *
+	 * @param items The items to be mapped.
+	 * @param fn The function that will map each item into an IO.
+	 */
+	traverse: <T, U>(items: Iterable<T>, fn: (item: T, index: number) => IO<U>): IO<U[]> =>
+		io(() => Array.from(items, fn)).andThen(ios => IO.sequence(ios))
+};
@@ -1,5 +1,6 @@
 import { Err, Ok, Result } from './Result';
 import type { SafeMap } from '../datastructures';
+import { structuralEquals } from '../datastructures/Equality';
 
 type OptionHelpers<T> = {
 	/**
@@ -32,7 +33,7 @@ type OptionHelpers<T> = {
 	 *
 	 * @param chainer The function that will be called to map into a new Option if this is a None.
 	 */
-	orElse: <U>(chainer: () => Option<U>) => Option<U>,
+	orElse: (chainer: () => Option<T>) => Option<T>,
 
 	/**
 	 * Unwraps this Option's inner value if it is a Some, OTHERWISE THROWS AN ERROR!
@@ -64,7 +65,34 @@ type OptionHelpers<T> = {
 	 */
 	match: <U>(matcher: { Some: (data: T) => U, None: () => U }) => U,
 
-	caseOf: <U>(cases: { Some: (data: T) => U, None: () => U }) => U
+	caseOf: <U>(cases: { Some: (data: T) => U, None: () => U }) => U,
+
+	/**
+	 * Returns whether this Option and the given Option are both None, or are both Some with equal data. Data is
+	 * compared structurally by default, so that e.g. Some([1, 2]) equals Some([1, 2]).
+	 *
+	 * @param other The Option to be compared with.
+	 * @param dataEquals The function used to compare data.
+	 */
+	equals: (other: Option<T>, dataEquals?: (a: T, b: T) => boolean) => boolean,
+
+	/**
+	 * Returns the wire format of this Option used by JSON.stringify, which can be parsed back into an Option with
+	 * {@link optionSchema}.
+	 */
+	toJSON: () => { type: 'some', data: T } | { type: 'none' },
+
+	/**
+	 * Allows this Option to be used with `yield*` inside of {@link Option.gen}, evaluating to this Option's data if this
+	 * is a Some, otherwise short-circuiting the generator with this None.
+	 */
+	safeUnwrap: () => Generator<{ type: 'none' }, T, unknown>,
+
+	/**
+	 * Iterates over this Option's data once if it is a Some, otherwise iterates over nothing, e.g. so that
+	 * `[...option]` is an array of zero or one elements.
+	 */
+	[Symbol.iterator]: () => IterableIterator<T>
 };
 
 /**
@@ -93,63 +121,261 @@ export const isNone = <T>(option: Option<T>): option is Option<T> & { type: 'non
 	return option.type === 'none';
 };
 
-const createOption = <T>(obj: { type: 'some', data: T } | { type: 'none' }): Option<T> => ({
-	...obj,
+// Methods are shared through each class's prototype, rather than being allocated for every Option.
+class SomeOption<T> implements OptionHelpers<T> {
+	readonly type = 'some';
+
+	readonly data: T;
+
+	constructor(data: T) {
+		this.data = data;
+	}
+
 	isSome() {
-		return isSome(this);
-	},
+		return true;
+	}
+
 	isNone() {
-		return isNone(this);
-	},
-	map<U>(mapper: (data: T) => U) {
-		return isSome(this) ? Some(mapper(this.data)) : this as unknown as Option<U>;
-	},
+		return false;
+	}
+
+	map<U>(mapper: (data: T) => U): Option<U> {
+		return new SomeOption(mapper(this.data));
+	}
+
 	andThen<U>(chainer: (data: T) => Option<U>) {
-		return isSome(this) ? chainer(this.data) : this as unknown as Option<U>;
-	},
-	orElse<U>(chainer: () => Option<U>) {
-		return isNone(this) ? chainer() : this as unknown as Option<U>;
-	},
+		return chainer(this.data);
+	}
+
+	orElse() {
+		return this;
+	}
+
 	unwrap() {
-		if (isSome(this)) {
-			return this.data;
-		}
+		return this.data;
+	}
 
-		throw new Error('Attempted to unwrap data from None!');
-	},
 	inspect(fn: (data: T) => void) {
-		if (isSome(this)) {
-			fn(this.data);
-		}
+		fn(this.data);
 
 		return this;
-	},
-	okOr<E>(error: E) {
-		return isSome(this) ? Ok<T, E>(this.data) : Err(error);
-	},
+	}
+
+	okOr<E>(): Result<T, E> {
+		return Ok<T, E>(this.data);
+	}
+
 	match<U>(matcher: { Some: (data: T) => U, None: () => U }) {
-		return isSome(this) ? matcher.Some(this.data) : matcher.None();
-	},
-	caseOf<U>(cases: { Some: (data: T) => U, None: () => U }): U {
-		return isSome(this) ? cases.Some(this.data) : cases.None();
+		return matcher.Some(this.data);
+	}
+
+	caseOf<U>(cases: { Some: (data: T) => U, None: () => U }) {
+		return cases.Some(this.data);
+	}
+
+	equals(other: Option<T>, dataEquals: (a: T, b: T) => boolean = structuralEquals) {
+		return isSome(other) && dataEquals(this.data, other.data);
+	}
+
+	toJSON() {
+		return { type: 'some' as const, data: this.data };
+	}
+
+	toString() {
+		return `Some(${String(this.data)})`;
+	}
+
+	*safeUnwrap(): Generator<{ type: 'none' }, T, unknown> {
+		return this.data;
+	}
+
+	*[Symbol.iterator]() {
+		yield this.data;
+	}
+}
+
+class NoneOption<T> implements OptionHelpers<T> {
+	readonly type = 'none';
+
+	isSome() {
+		return false;
+	}
+
+	isNone() {
+		return true;
+	}
+
+	map<U>(): Option<U> {
+		return None();
+	}
+
+	andThen<U>(): Option<U> {
+		return None();
+	}
+
+	orElse(chainer: () => Option<T>) {
+		return chainer();
+	}
+
+	unwrap(): T {
+		throw new Error('Attempted to unwrap data from None!');
+	}
+
+	inspect() {
+		return this;
+	}
+
+	okOr<E>(error: E): Result<T, E> {
+		return Err(error);
+	}
+
+	match<U>(matcher: { Some: (data: T) => U, None: () => U }) {
+		return matcher.None();
+	}
+
+	caseOf<U>(cases: { Some: (data: T) => U, None: () => U }) {
+		return cases.None();
+	}
+
+	equals(other: Option<T>) {
+		return isNone(other);
+	}
+
+	toJSON() {
+		return { type: 'none' as const };
 	}
-});
+
+	toString() {
+		return 'None';
+	}
+
+	*safeUnwrap(): Generator<{ type: 'none' }, T, unknown> {
+		yield this;
+
+		throw new Error('Attempted to resume a generator after it short-circuited on a None!');
+	}
+
+	*[Symbol.iterator](): Generator<T> {
+		// None contains no data to iterate over.
+	}
+}
+
+// None contains no data, so every None is the same frozen instance regardless of its type.
+const none = Object.freeze(new NoneOption<never>());
+
+/**
+ * Returns whether the given value is an {@link Option}, i.e. a Some or a None.
+ *
+ * @param value The value to be checked.
+ */
+export const isOption = (value: unknown): value is Option<unknown> => value instanceof SomeOption || value instanceof NoneOption;
 
 /**
  * Creates a new Some, an {@link Option} containing a value.
  *
  * @param data The data to be embedded within the Option.
  */
-export const Some = <T>(data: T) => createOption({ type: 'some', data });
+export const Some = <T>(data: T): Option<T> => new SomeOption(data);
 
 /**
- * Creates a new None, an {@link Option} without an inner value.
+ * Returns None, an {@link Option} without an inner value. Every None is the same frozen instance.
  */
-export const None = <T>() => createOption<T>({ type: 'none' });
+export const None = <T = never>(): Option<T> => none as unknown as Option<T>;
 
 /**
  * Wraps the given data into an {@link Option}; Specifically, a Some if it is non-nullish, None otherwise.
  *
  * @param data The data to be wrapped in an Option
  */
-export const intoOption = <T>(data: T | undefined | null): Option<T> => data === undefined || data === null ? None() : Some<T>(data);
\ No newline at end of file
+export const intoOption = <T>(data: T | undefined | null): Option<T> => data === undefined || data === null ? None() : Some<T>(data);
+
+type SomeData<O> = O extends { type: 'some', data: infer T } ? T : never;
+type AnyOption = { type: 'some', data: unknown } | { type: 'none' };
+
+/**
+ * Utilities that operate on {@link Option}s as a whole.
+ */
+export const Option = {
+	/**
+	 * Allows for chaining multiple Options together without nesting. Within the given generator function, `yield*`
+	 * {@link Option#safeUnwrap} to retrieve an Option's data if it is a Some; if it is a None, the generator stops and
+	 * None is returned instead.
+	 *
+	 * @example
+	 * const port = Option.gen(function* () {
+	 *     const config = yield* safeMap.get('config').safeUnwrap();
+	 *     const port = yield* intoOption(config.port).safeUnwrap();
+	 *
+	 *     return Some(port + 1);
+	 * });
+	 *
+	 * @param fn The generator function that will yield Options, and return the final Option.
+	 */
+	gen: <R extends AnyOption>(fn: () => Generator<{ type: 'none' }, R, unknown>): Option<SomeData<R>> => {
+		const generator = fn();
+		const step = generator.next();
+
+		if (!step.done) {
+			// Ensures any finally blocks within the generator are run before short-circuiting.
+			generator.return(undefined as unknown as R);
+		}
+
+		return step.value as unknown as Option<SomeData<R>>;
+	},
+
+	/**
+	 * Combines the given Options into a single Option containing the data of every Option, in order, if they are all
+	 * Some. Otherwise, None is returned. Tuples retain the type of each element.
+	 *
+	 * @example
+	 * Option.all([Some(1), Some('a')]); // Some([1, 'a'])
+	 * Option.all([Some(1), None()]); // None
+	 *
+	 * @param options The Options to be combined.
+	 */
+	all: <O extends readonly AnyOption[]>(options: readonly [...O]): Option<{ -readonly [K in keyof O]: SomeData<O[K]> }> => {
+		const data: unknown[] = [];
+
+		for (const option of options) {
+			if (option.type === 'none') return None();
+
+			data.push(option.data);
+		}
+
+		return Some(data as { -readonly [K in keyof O]: SomeData<O[K]> });
+	},
+
+	/**
+	 * Maps each of the given items into an Option, returning the data of every Some and discarding every None.
+	 *
+	 * @param items The items to be mapped.
+	 * @param fn The function that will map each item into an Option.
+	 */
+	filterMap: <T, U>(items: Iterable<T>, fn: (item: T, index: number) => Option<U>): U[] => {
+		const data: U[] = [];
+		let index = 0;
+
+		for (const item of items) {
+			fn(item, index++).inspect(value => data.push(value));
+		}
+
+		return data;
+	},
+
+	/**
+	 * Returns the data of every Some in the given Options, discarding every None.
+	 *
+	 * @param options The Options to be compacted.
+	 */
+	compact: <O extends AnyOption>(options: Iterable<O>): SomeData<O>[] => {
+		const data: SomeData<O>[] = [];
+
+		for (const option of options) {
+			if (option.type === 'some') {
+				data.push(option.data as SomeData<O>);
+			}
+		}
+
+		return data;
+	}
+};
\ No newline at end of file
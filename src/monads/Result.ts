@@ -1,3 +1,5 @@
+import { structuralEquals } from '../datastructures/Equality';
+
 type ResultHelpers<T, E> = {
 	/**
 	 * Returns whether this Result is an Ok.
@@ -68,7 +70,34 @@ type ResultHelpers<T, E> = {
 	 */
 	inspectErr: (fn: (error: E) => void) => Result<T, E>,
 
-	caseOf: <U>(cases: { Ok: (data: T) => U, Err: (error: E) => U }) => U
+	caseOf: <U>(cases: { Ok: (data: T) => U, Err: (error: E) => U }) => U,
+
+	/**
+	 * Returns whether this Result and the given Result are both Ok with equal data, or are both Err with equal errors.
+	 * Data and errors are compared structurally by default, so that e.g. Ok([1, 2]) equals Ok([1, 2]).
+	 *
+	 * @param other The Result to be compared with.
+	 * @param contentEquals The function used to compare data and errors.
+	 */
+	equals: (other: Result<T, E>, contentEquals?: (a: T | E, b: T | E) => boolean) => boolean,
+
+	/**
+	 * Returns the wire format of this Result used by JSON.stringify, which can be parsed back into a Result with
+	 * {@link resultSchema}.
+	 */
+	toJSON: () => { type: 'ok', data: T } | { type: 'err', error: E },
+
+	/**
+	 * Allows this Result to be used with `yield*` inside of {@link Result.gen} and {@link Result.genAsync}, evaluating
+	 * to this Result's data if this is an Ok, otherwise short-circuiting the generator with this Err.
+	 */
+	safeUnwrap: () => Generator<{ type: 'err', error: E }, T, unknown>,
+
+	/**
+	 * Iterates over this Result's data once if it is an Ok, otherwise iterates over nothing, e.g. so that
+	 * `[...result]` is an array of zero or one elements.
+	 */
+	[Symbol.iterator]: () => IterableIterator<T>
 };
 
 /**
@@ -99,68 +128,181 @@ export const isErr = <T, E>(result: Result<T, E>): result is Result<T, E> & { ty
 	return result.type === 'err';
 };
 
-const createResult = <T, E>(obj: { type: 'ok', data: T } | { type: 'err', error: E }): Result<T, E> => ({
-	...obj,
+// Methods are shared through each class's prototype, rather than being allocated for every Result.
+class OkResult<T, E> implements ResultHelpers<T, E> {
+	readonly type = 'ok';
+
+	readonly data: T;
+
+	constructor(data: T) {
+		this.data = data;
+	}
+
 	isOk() {
-		return isOk(this);
-	},
+		return true;
+	}
+
 	isErr() {
-		return isErr(this);
-	},
-	map<U>(mapper: (data: T) => U) {
-		return isOk(this) ? Ok(mapper(this.data)) : this as unknown as Result<U, E>;
-	},
-	mapErr<U>(mapper: (error: E) => U) {
-		return isErr(this) ? Err(mapper(this.error)) : this as unknown as Result<T, U>;
-	},
+		return false;
+	}
+
+	map<U>(mapper: (data: T) => U): Result<U, E> {
+		return new OkResult(mapper(this.data));
+	}
+
+	mapErr<U>(): Result<T, U> {
+		return new OkResult(this.data);
+	}
+
 	andThen<U>(chainer: (data: T) => Result<U, E>) {
-		return isOk(this) ? chainer(this.data) : this as unknown as Result<U, E>;
-	},
-	orElse<U>(chainer: (error: E) => Result<T, U>) {
-		return isErr(this) ? chainer(this.error) : this as unknown as Result<T, U>;
-	},
-	unwrap() {
-		if (isOk(this)) return this.data;
+		return chainer(this.data);
+	}
 
-		throw new Error('Attempted to unwrap data of Err!');
-	},
-	unwrapErr() {
-		if (isErr(this)) return this.error;
+	orElse<U>(): Result<T, U> {
+		return new OkResult(this.data);
+	}
+
+	unwrap() {
+		return this.data;
+	}
 
+	unwrapErr(): E {
 		throw new Error('Attempted to unwrap error of Ok!');
-	},
+	}
+
 	inspect(fn: (data: T) => void) {
-		if (isOk(this)) {
-			fn(this.data);
-		}
+		fn(this.data);
 
 		return this;
-	},
+	}
+
+	inspectErr() {
+		return this;
+	}
+
+	caseOf<U>(cases: { Ok: (data: T) => U, Err: (error: E) => U }) {
+		return cases.Ok(this.data);
+	}
+
+	equals(other: Result<T, E>, contentEquals: (a: T | E, b: T | E) => boolean = structuralEquals) {
+		return isOk(other) && contentEquals(this.data, other.data);
+	}
+
+	toJSON() {
+		return { type: 'ok' as const, data: this.data };
+	}
+
+	toString() {
+		return `Ok(${String(this.data)})`;
+	}
+
+	*safeUnwrap(): Generator<{ type: 'err', error: E }, T, unknown> {
+		return this.data;
+	}
+
+	*[Symbol.iterator]() {
+		yield this.data;
+	}
+}
+
+class ErrResult<T, E> implements ResultHelpers<T, E> {
+	readonly type = 'err';
+
+	readonly error: E;
+
+	constructor(error: E) {
+		this.error = error;
+	}
+
+	isOk() {
+		return false;
+	}
+
+	isErr() {
+		return true;
+	}
+
+	map<U>(): Result<U, E> {
+		return new ErrResult(this.error);
+	}
+
+	mapErr<U>(mapper: (error: E) => U): Result<T, U> {
+		return new ErrResult(mapper(this.error));
+	}
+
+	andThen<U>(): Result<U, E> {
+		return new ErrResult(this.error);
+	}
+
+	orElse<U>(chainer: (error: E) => Result<T, U>) {
+		return chainer(this.error);
+	}
+
+	unwrap(): T {
+		throw new Error('Attempted to unwrap data of Err!');
+	}
+
+	unwrapErr() {
+		return this.error;
+	}
+
+	inspect() {
+		return this;
+	}
+
 	inspectErr(fn: (error: E) => void) {
-		if (isErr(this)) {
-			fn(this.error);
-		}
+		fn(this.error);
 
 		return this;
-	},
-	caseOf<U>(cases: { Ok: (data: T) => U, Err: (error: E) => U }): U {
-		return isOk(this) ? cases.Ok(this.data) : cases.Err(this.error);
 	}
-});
+
+	caseOf<U>(cases: { Ok: (data: T) => U, Err: (error: E) => U }) {
+		return cases.Err(this.error);
+	}
+
+	equals(other: Result<T, E>, contentEquals: (a: T | E, b: T | E) => boolean = structuralEquals) {
+		return isErr(other) && contentEquals(this.error, other.error);
+	}
+
+	toJSON() {
+		return { type: 'err' as const, error: this.error };
+	}
+
+	toString() {
+		return `Err(${String(this.error)})`;
+	}
+
+	*safeUnwrap(): Generator<{ type: 'err', error: E }, T, unknown> {
+		yield this;
+
+		throw new Error('Attempted to resume a generator after it short-circuited on an Err!');
+	}
+
+	*[Symbol.iterator](): Generator<T> {
+		// An Err contains no data to iterate over.
+	}
+}
+
+/**
+ * Returns whether the given value is a {@link Result}, i.e. an Ok or an Err.
+ *
+ * @param value The value to be checked.
+ */
+export const isResult = (value: unknown): value is Result<unknown, unknown> => value instanceof OkResult || value instanceof ErrResult;
 
 /**
  * Creates an Ok, a successful {@link Result} that will contain the given data.
  *
  * @param data The data to be stored in this Ok.
  */
-export const Ok = <T, E>(data: T) => createResult<T, E>({ type: 'ok', data });
+export const Ok = <T, E = never>(data: T): Result<T, E> => new OkResult(data);
 
 /**
  * Creates an Err, an unsuccessful {@link Result} that will contain the given error.
  *
  * @param error The error to be stored in this Err.
  */
-export const Err = <E, T>(error: E) => createResult<T, E>({ type: 'err', error });
+export const Err = <E, T = never>(error: E): Result<T, E> => new ErrResult(error);
 
 /**
  * Represents a Promise that will be resolved into a Result. This can be applicable to situations such as networking,
@@ -175,4 +317,247 @@ export type AsyncResult<T, E> = Promise<Result<T, E>>;
  *
  * @param promise The Promise to be converted into an AsyncResult.
  */
-export const intoAsyncResult = <T, E>(promise: Promise<T>): Promise<Result<T, E>> => promise.then(data => Ok<T, E>(data)).catch(error => Err(error));
\ No newline at end of file
+export const intoAsyncResult = <T, E>(promise: Promise<T>): Promise<Result<T, E>> => promise.then(data => Ok<T, E>(data)).catch(error => Err(error));
+
+type OkData<R> = R extends { type: 'ok', data: infer T } ? T : never;
+type ErrError<R> = R extends { type: 'err', error: infer E } ? E : never;
+type AnyResult = { type: 'ok', data: unknown } | { type: 'err', error: unknown };
+
+type AllData<R extends readonly AnyResult[]> = { -readonly [K in keyof R]: OkData<R[K]> };
+type AllErrors<R extends readonly AnyResult[]> = { -readonly [K in keyof R]: ErrError<R[K]> };
+type AwaitedResults<R extends readonly PromiseLike<AnyResult>[]> = { -readonly [K in keyof R]: Awaited<R[K]> };
+type SettledResults<R extends readonly PromiseLike<AnyResult>[]> = { -readonly [K in keyof R]: Awaited<R[K]> | Result<never, unknown> };
+
+const allResults = <R extends readonly AnyResult[]>(results: readonly [...R]): Result<AllData<R>, ErrError<R[number]>> => {
+	const data: unknown[] = [];
+
+	for (const result of results) {
+		if (result.type === 'err') return result as unknown as Result<AllData<R>, ErrError<R[number]>>;
+
+		data.push(result.data);
+	}
+
+	return Ok(data as AllData<R>);
+};
+
+const anyResult = <R extends readonly AnyResult[]>(results: readonly [...R]): Result<OkData<R[number]>, AllErrors<R>> => {
+	const errors: unknown[] = [];
+
+	for (const result of results) {
+		if (result.type === 'ok') return result as unknown as Result<OkData<R[number]>, AllErrors<R>>;
+
+		errors.push(result.error);
+	}
+
+	return Err(errors as AllErrors<R>);
+};
+
+/**
+ * Utilities that operate on {@link Result}s as a whole.
+ */
+export const Result = {
+	/**
+	 * Allows for chaining multiple Results together without nesting, similar to async / await. Within the given
+	 * generator function, `yield*` {@link Result#safeUnwrap} to retrieve a Result's data if it is an Ok; if it is an
+	 * Err, the generator stops and that Err is returned instead. The error type is inferred from every Result that is
+	 * yielded.
+	 *
+	 * @example
+	 * const result = Result.gen(function* () {
+	 *     const data = yield* parseJSON(json).safeUnwrap();
+	 *     const user = yield* parseWithSchema(userSchema)(data).safeUnwrap();
+	 *
+	 *     return Ok(user.name);
+	 * });
+	 *
+	 * @param fn The generator function that will yield Results, and return the final Result.
+	 */
+	gen: <Y extends { type: 'err', error: unknown }, R extends AnyResult>(fn: () => Generator<Y, R, unknown>): Result<OkData<R>, ErrError<Y> | ErrError<R>> => {
+		const generator = fn();
+		const step = generator.next();
+
+		if (!step.done) {
+			// Ensures any finally blocks within the generator are run before short-circuiting.
+			generator.return(undefined as unknown as R);
+		}
+
+		return step.value as unknown as Result<OkData<R>, ErrError<Y> | ErrError<R>>;
+	},
+
+	/**
+	 * The asynchronous equivalent of {@link Result.gen}, producing an {@link AsyncResult}. Within the given async
+	 * generator function, `yield*` {@link Result#safeUnwrap} once an AsyncResult has been awaited.
+	 *
+	 * @example
+	 * const result = Result.genAsync(async function* () {
+	 *     const response = yield* (await fetchUser(id)).safeUnwrap();
+	 *     const user = yield* parseWithSchema(userSchema)(response).safeUnwrap();
+	 *
+	 *     return Ok(user.name);
+	 * });
+	 *
+	 * @param fn The async generator function that will yield Results, and return the final Result.
+	 */
+	genAsync: async <Y extends { type: 'err', error: unknown }, R extends AnyResult>(fn: () => AsyncGenerator<Y, R, unknown>): AsyncResult<OkData<R>, ErrError<Y> | ErrError<R>> => {
+		const generator = fn();
+		const step = await generator.next();
+
+		if (!step.done) {
+			// Ensures any finally blocks within the generator are run before short-circuiting.
+			await generator.return(undefined as unknown as R);
+		}
+
+		return step.value as unknown as Result<OkData<R>, ErrError<Y> | ErrError<R>>;
+	},
+
+	/**
+	 * Combines the given Results into a single Result containing the data of every Result, in order, if they are all
+	 * Ok. Otherwise, the first Err is returned. Tuples retain the type of each element.
+	 *
+	 * @example
+	 * Result.all([Ok(1), Ok('a')]); // Ok([1, 'a'])
+	 * Result.all([Ok(1), Err('oops'), Err('other')]); // Err('oops')
+	 *
+	 * @param results The Results to be combined.
+	 */
+	all: allResults,
+
+	/**
+	 * An alias of {@link Result.all}.
+	 *
+	 * @param results The Results to be combined.
+	 */
+	sequence: allResults,
+
+	/**
+	 * Maps each of the given items into a Result, returning an Ok of every mapped value if they are all Ok, otherwise
+	 * returning the first Err. Items after the first Err will not be mapped.
+	 *
+	 * @param items The items to be mapped.
+	 * @param fn The function that will map each item into a Result.
+	 */
+	traverse: <T, U, E>(items: Iterable<T>, fn: (item: T, index: number) => Result<U, E>): Result<U[], E> => {
+		const data: U[] = [];
+		let index = 0;
+
+		for (const item of items) {
+			const result = fn(item, index++);
+
+			if (isErr(result)) return Err(result.error);
+
+			data.push(result.data);
+		}
+
+		return Ok(data);
+	},
+
+	/**
+	 * Returns the first Ok of the given Results. If there are none, an Err containing every error, in order, is
+	 * returned instead.
+	 *
+	 * @param results The Results to be searched.
+	 */
+	any: anyResult,
+
+	/**
+	 * An alias of {@link Result.any}.
+	 *
+	 * @param results The Results to be searched.
+	 */
+	firstOk: anyResult,
+
+	/**
+	 * Splits the given Results into the data of every Ok and the error of every Err, each in their original order.
+	 *
+	 * @param results The Results to be partitioned.
+	 */
+	partition: <R extends readonly AnyResult[]>(results: readonly [...R]): [OkData<R[number]>[], ErrError<R[number]>[]] => {
+		const data: OkData<R[number]>[] = [];
+		const errors: ErrError<R[number]>[] = [];
+
+		for (const result of results) {
+			if (result.type === 'ok') {
+				data.push(result.data as OkData<R[number]>);
+			} else {
+				errors.push(result.error as ErrError<R[number]>);
+			}
+		}
+
+		return [data, errors];
+	},
+
+	/**
+	 * Combines the given Results like {@link Result.all}, but rather than stopping at the first Err, every error is
+	 * collected into the returned Err.
+	 *
+	 * @param results The Results to be combined.
+	 */
+	collectErrors: <R extends readonly AnyResult[]>(results: readonly [...R]): Result<AllData<R>, ErrError<R[number]>[]> => {
+		const [data, errors] = Result.partition(results);
+
+		return errors.length === 0 ? Ok(data as AllData<R>) : Err(errors);
+	},
+
+	/**
+	 * Combines an object of Results into a single Result containing an object of the data of every Result if they are
+	 * all Ok. Otherwise, the first Err (in key order) is returned.
+	 *
+	 * @example
+	 * Result.allObject({ a: Ok(1), b: Ok('b') }); // Ok({ a: 1, b: 'b' })
+	 *
+	 * @param results The object of Results to be combined.
+	 */
+	allObject: <R extends Record<string, AnyResult>>(results: R): Result<{ [K in keyof R]: OkData<R[K]> }, ErrError<R[keyof R]>> => {
+		const data: Record<string, unknown> = {};
+
+		for (const key of Object.keys(results)) {
+			const result = results[key] as AnyResult;
+
+			if (result.type === 'err') return result as unknown as Result<{ [K in keyof R]: OkData<R[K]> }, ErrError<R[keyof R]>>;
+
+			data[key] = result.data;
+		}
+
+		return Ok(data as { [K in keyof R]: OkData<R[K]> });
+	},
+
+	/**
+	 * The asynchronous equivalent of {@link Result.all}. Every AsyncResult is awaited concurrently, resolving as soon
+	 * as any of them resolves to an Err, or once they have all resolved to Ok.
+	 *
+	 * @param results The AsyncResults to be combined.
+	 */
+	allAsync: <R extends readonly PromiseLike<AnyResult>[]>(results: readonly [...R]): AsyncResult<AllData<AwaitedResults<R>>, ErrError<Awaited<R[number]>>> =>
+		new Promise((resolve, reject) => {
+			const data: unknown[] = new Array(results.length);
+			let remaining = results.length;
+
+			if (remaining === 0) {
+				resolve(Ok(data as AllData<AwaitedResults<R>>));
+				return;
+			}
+
+			results.forEach((promise, index) => promise.then(result => {
+				if (result.type === 'err') {
+					resolve(result as unknown as Result<AllData<AwaitedResults<R>>, ErrError<Awaited<R[number]>>>);
+					return;
+				}
+
+				data[index] = result.data;
+
+				if (--remaining === 0) {
+					resolve(Ok(data as AllData<AwaitedResults<R>>));
+				}
+			}, reject));
+		}),
+
+	/**
+	 * Awaits every given AsyncResult concurrently, resolving to every Result, in order, once they have all settled.
+	 * An AsyncResult that rejects becomes an Err of its rejection reason, so this never rejects. Use alongside
+	 * {@link Result.partition} or {@link Result.collectErrors} to handle every outcome.
+	 *
+	 * @param results The AsyncResults to be awaited.
+	 */
+	allSettledAsync: <R extends readonly PromiseLike<AnyResult>[]>(results: readonly [...R]): Promise<SettledResults<R>> =>
+		Promise.all(results.map(result => Promise.resolve(result).then(settled => settled, (reason: unknown) => Err(reason)))) as Promise<SettledResults<R>>
+};
\ No newline at end of file
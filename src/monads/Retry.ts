@@ -0,0 +1,36 @@
+import type { AsyncResult } from './Result';
+import type { RetryPolicy } from './Task';
+import { isErr } from './Result';
+
+/**
+ * Returns a Promise that resolves to whether the given delay elapsed without the given signal being aborted.
+ *
+ * NOTE: This module is internal to the library, and is deliberately not exported from the monads index.
+ */
+export type Wait = (ms: number, signal: AbortSignal) => Promise<boolean>;
+
+/**
+ * Returns a Task function that will run the given function again if it fails according to the given policy, waiting
+ * between each attempt with the given {@link Wait}. The last error is returned if every attempt fails, or if a wait is
+ * aborted.
+ *
+ * @param fn The Task function to be retried.
+ * @param policy The policy that determines when and how often to retry.
+ * @param wait The function used to wait before each retry.
+ */
+export const retrying = <T, E>(fn: (signal: AbortSignal) => AsyncResult<T, E>, policy: RetryPolicy<E>, wait: Wait) =>
+	async (signal: AbortSignal) => {
+		let result = await fn(signal);
+
+		for (let attempt = 1; attempt < policy.maxAttempts && isErr(result); attempt++) {
+			if (policy.shouldRetry && !policy.shouldRetry(result.error, attempt)) break;
+
+			const elapsed = await wait(policy.backoff?.(attempt) ?? 0, signal);
+
+			if (!elapsed) break;
+
+			result = await fn(signal);
+		}
+
+		return result;
+	};
\ No newline at end of file
@@ -0,0 +1,441 @@
+import { io, IO } from './IO';
+import { None, Option, Some } from './Option';
+import { sameValueZero } from '../datastructures/Equality';
+import type { Listener } from '../types';
+
+/**
+ * Receives the values of a {@link Stream}, and is notified once the Stream has completed.
+ */
+export type StreamObserver<T> = {
+	next: (value: T) => void,
+	complete: () => void
+};
+
+/**
+ * Represents a lazy sequence of values over time, such as DOM events or WebSocket messages. Nothing happens until a
+ * Stream is subscribed to, and every subscription is independent, e.g. each subscription to a mapped Stream runs the
+ * mapper separately.
+ *
+ * Streams may complete, after which they will emit no more values. Many Streams, such as DOM events, never complete;
+ * see {@link Stream#takeUntil}.
+ */
+export type Stream<T> = {
+	/**
+	 * Subscribes the given observer to this Stream, returning a Listener that will unsubscribe it. The observer will
+	 * not be called once it has been unsubscribed or the Stream has completed. NOTE: This is an internal reference,
+	 * and should never be used outside of library code. Use {@link Stream#subscribe} instead.
+	 */
+	_subscribe: (observer: StreamObserver<T>) => Listener,
+
+	/**
+	 * Returns an {@link IO} that will subscribe to this Stream, calling the given function with every value, and
+	 * returning a Listener that will unsubscribe.
+	 *
+	 * @param next The function that will be called with every value.
+	 * @param complete The function that will be called once this Stream has completed.
+	 */
+	subscribe: (next: (value: T) => void, complete?: () => void) => IO<Listener>,
+
+	/**
+	 * Returns a new Stream with every value mapped with the given function.
+	 *
+	 * @param mapper The mapping function to use.
+	 */
+	map: <U>(mapper: (value: T) => U) => Stream<U>,
+
+	/**
+	 * Returns a new Stream with only the values that satisfy the given predicate.
+	 *
+	 * @param predicate The function each value will be tested against.
+	 */
+	filter: {
+		<S extends T>(predicate: (value: T) => value is S): Stream<S>,
+		(predicate: (value: T) => boolean): Stream<T>
+	},
+
+	/**
+	 * Returns a new Stream with every value mapped into an {@link Option}, keeping the data of every Some and
+	 * discarding every None.
+	 *
+	 * @param fn The function that will map each value into an Option.
+	 */
+	filterMap: <U>(fn: (value: T) => Option<U>) => Stream<U>,
+
+	/**
+	 * Returns a new Stream of every intermediate result of reducing the values of this Stream, starting from the given
+	 * initial value.
+	 *
+	 * @example
+	 * clicks.scan(count => count + 1, 0); // 1, 2, 3...
+	 *
+	 * @param reducer The function that will combine the previous result with each value.
+	 * @param initial The initial result.
+	 */
+	scan: <U>(reducer: (accumulator: U, value: T) => U, initial: U) => Stream<U>,
+
+	/**
+	 * Returns a new Stream that only emits a value once no other value has been emitted for the given delay, e.g. to
+	 * wait until a user has stopped typing. Any pending value is emitted when this Stream completes.
+	 *
+	 * @param delay The amount of milliseconds without a value before the latest value is emitted.
+	 */
+	debounce: (delay: number) => Stream<T>,
+
+	/**
+	 * Returns a new Stream that emits a value, then ignores every value for the given interval.
+	 *
+	 * @param interval The amount of milliseconds to ignore values for after each value.
+	 */
+	throttle: (interval: number) => Stream<T>,
+
+	/**
+	 * Returns a new Stream that emits the values of this Stream and every given Stream as they occur, completing once
+	 * all of them have completed.
+	 *
+	 * @param others The Streams to be merged with.
+	 */
+	merge: <U>(...others: Stream<U>[]) => Stream<T | U>,
+
+	/**
+	 * Returns a new Stream that emits the values of this Stream until the given Stream emits a value, at which point
+	 * it completes.
+	 *
+	 * @param notifier The Stream that will complete the returned Stream.
+	 */
+	takeUntil: (notifier: Stream<unknown>) => Stream<T>,
+
+	/**
+	 * Returns a new Stream that skips any value that is equal to the value before it.
+	 *
+	 * @param equals How values will be compared. Defaults to {@link sameValueZero}.
+	 */
+	distinct: (equals?: (a: T, b: T) => boolean) => Stream<T>,
+
+	/**
+	 * Allows iterating over the values of this Stream with a for await...of loop, which subscribes to this Stream
+	 * once iteration begins and unsubscribes once the loop ends. Values emitted faster than they are iterated over are
+	 * buffered.
+	 */
+	[Symbol.asyncIterator]: () => AsyncIterator<T>
+};
+
+/**
+ * A {@link Stream} whose values are emitted manually, e.g. from an existing callback. Every subscriber receives the
+ * values emitted after it subscribed.
+ */
+export type StreamSource<T> = {
+	stream: Stream<T>,
+
+	/**
+	 * Emits the given value to every subscriber.
+	 *
+	 * @param value The value to be emitted.
+	 */
+	emit: (value: T) => void,
+
+	/**
+	 * Completes the Stream for every current and future subscriber.
+	 */
+	complete: () => void
+};
+
+/**
+ * Creates a new {@link Stream} from the given function, which will be called with an observer whenever the Stream is
+ * subscribed to, and must return a Listener that stops emitting values to that observer.
+ *
+ * @example
+ * const ticks = stream<number>(observer => {
+ *     let count = 0;
+ *     const id = setInterval(() => observer.next(++count), 1000);
+ *
+ *     return { removeListener: () => clearInterval(id) };
+ * });
+ *
+ * @param producer The function that will emit values to each subscriber.
+ */
+export const stream = <T>(producer: (observer: StreamObserver<T>) => Listener): Stream<T> => ({
+	_subscribe(observer) {
+		let isClosed = false;
+		let source: Listener | undefined;
+
+		const close = () => {
+			if (isClosed) return false;
+
+			isClosed = true;
+			source?.removeListener();
+
+			return true;
+		};
+
+		source = producer({
+			next: value => {
+				if (!isClosed) {
+					observer.next(value);
+				}
+			},
+			complete: () => {
+				if (close()) {
+					observer.complete();
+				}
+			}
+		});
+
+		// The producer may have completed before it returned its Listener.
+		if (isClosed) {
+			source.removeListener();
+		}
+
+		return {
+			removeListener: () => {
+				close();
+			}
+		};
+	},
+	subscribe(next, complete = () => {}) {
+		return io(() => this._subscribe({ next, complete }));
+	},
+	map<U>(mapper: (value: T) => U) {
+		return stream<U>(observer => this._subscribe({
+			next: value => observer.next(mapper(value)),
+			complete: observer.complete
+		}));
+	},
+	filter(predicate: (value: T) => boolean) {
+		return stream<T>(observer => this._subscribe({
+			next: value => {
+				if (predicate(value)) {
+					observer.next(value);
+				}
+			},
+			complete: observer.complete
+		}));
+	},
+	filterMap<U>(fn: (value: T) => Option<U>) {
+		return stream<U>(observer => this._subscribe({
+			next: value => {
+				fn(value).inspect(observer.next);
+			},
+			complete: observer.complete
+		}));
+	},
+	scan<U>(reducer: (accumulator: U, value: T) => U, initial: U) {
+		return stream<U>(observer => {
+			let accumulator = initial;
+
+			return this._subscribe({
+				next: value => {
+					accumulator = reducer(accumulator, value);
+					observer.next(accumulator);
+				},
+				complete: observer.complete
+			});
+		});
+	},
+	debounce(delay) {
+		return stream(observer => {
+			let pending: Option<T> = None();
+			let timer: ReturnType<typeof setTimeout> | undefined;
+
+			const flush = () => {
+				const value = pending;
+				pending = None();
+
+				value.inspect(observer.next);
+			};
+
+			const source = this._subscribe({
+				next: value => {
+					clearTimeout(timer);
+					pending = Some(value);
+					timer = setTimeout(flush, delay);
+				},
+				complete: () => {
+					clearTimeout(timer);
+					flush();
+					observer.complete();
+				}
+			});
+
+			return {
+				removeListener: () => {
+					clearTimeout(timer);
+					source.removeListener();
+				}
+			};
+		});
+	},
+	throttle(interval) {
+		return stream(observer => {
+			let timer: ReturnType<typeof setTimeout> | undefined;
+
+			const source = this._subscribe({
+				next: value => {
+					if (timer !== undefined) return;
+
+					timer = setTimeout(() => timer = undefined, interval);
+					observer.next(value);
+				},
+				complete: observer.complete
+			});
+
+			return {
+				removeListener: () => {
+					clearTimeout(timer);
+					source.removeListener();
+				}
+			};
+		});
+	},
+	merge<U>(...others: Stream<U>[]) {
+		return Stream.merge<T | U>(this, ...others);
+	},
+	takeUntil(notifier) {
+		return stream(observer => {
+			const notifierListener = notifier._subscribe({ next: observer.complete, complete: () => {} });
+			const source = this._subscribe(observer);
+
+			return {
+				removeListener: () => {
+					notifierListener.removeListener();
+					source.removeListener();
+				}
+			};
+		});
+	},
+	distinct(equals = sameValueZero) {
+		return stream(observer => {
+			let previous: Option<T> = None();
+
+			return this._subscribe({
+				next: value => {
+					if (previous.caseOf({ Some: data => equals(data, value), None: () => false })) return;
+
+					previous = Some(value);
+					observer.next(value);
+				},
+				complete: observer.complete
+			});
+		});
+	},
+	[Symbol.asyncIterator]() {
+		const buffer: T[] = [];
+		let waiting: ((result: IteratorResult<T, undefined>) => void) | undefined;
+		let isDone = false;
+		let listener: Listener | undefined;
+
+		const settle = (result: IteratorResult<T, undefined>) => {
+			const resolve = waiting;
+			waiting = undefined;
+			resolve?.(result);
+		};
+
+		const finish = () => {
+			isDone = true;
+			buffer.length = 0;
+			listener?.removeListener();
+			settle({ done: true, value: undefined });
+		};
+
+		return {
+			next: () => {
+				listener = listener ?? this._subscribe({
+					next: value => waiting ? settle({ done: false, value }) : buffer.push(value),
+					complete: () => {
+						isDone = true;
+
+						// Values that have already been buffered are still iterated over.
+						if (buffer.length === 0) {
+							settle({ done: true, value: undefined });
+						}
+					}
+				});
+
+				if (buffer.length > 0) return Promise.resolve({ done: false, value: buffer.shift() as T });
+				if (isDone) return Promise.resolve({ done: true, value: undefined });
+
+				return new Promise<IteratorResult<T, undefined>>(resolve => waiting = resolve);
+			},
+			return: () => {
+				finish();
+
+				return Promise.resolve({ done: true, value: undefined });
+			}
+		};
+	}
+});
+
+/**
+ * Utilities that create {@link Stream}s.
+ */
+export const Stream = {
+	/**
+	 * Returns a Stream that emits each of the given values as soon as it is subscribed to, and then completes.
+	 *
+	 * @param values The values to be emitted.
+	 */
+	of: <T>(...values: T[]): Stream<T> => stream(observer => {
+		values.forEach(value => observer.next(value));
+		observer.complete();
+
+		return { removeListener: () => {} };
+	}),
+
+	/**
+	 * Returns a Stream that emits the values of every given Stream as they occur, completing once all of them have
+	 * completed.
+	 *
+	 * @param streams The Streams to be merged.
+	 */
+	merge: <T>(...streams: Stream<T>[]): Stream<T> => stream(observer => {
+		let remaining = streams.length;
+
+		if (remaining === 0) {
+			observer.complete();
+		}
+
+		const listeners = streams.map(source => source._subscribe({
+			next: observer.next,
+			complete: () => {
+				if (--remaining === 0) {
+					observer.complete();
+				}
+			}
+		}));
+
+		return {
+			removeListener: () => listeners.forEach(listener => listener.removeListener())
+		};
+	}),
+
+	/**
+	 * Creates a {@link StreamSource}, allowing values to be emitted to a Stream from existing callbacks.
+	 *
+	 * @example
+	 * const { stream, emit } = Stream.source<string>();
+	 * socket.on('message', emit);
+	 */
+	source: <T>(): StreamSource<T> => {
+		const observers = new Set<StreamObserver<T>>();
+		let isComplete = false;
+
+		return {
+			stream: stream(observer => {
+				if (isComplete) {
+					observer.complete();
+				} else {
+					observers.add(observer);
+				}
+
+				return {
+					removeListener: () => observers.delete(observer)
+				};
+			}),
+			emit: value => Array.from(observers).forEach(observer => observer.next(value)),
+			complete: () => {
+				isComplete = true;
+				Array.from(observers).forEach(observer => observer.complete());
+				observers.clear();
+			}
+		};
+	}
+};
\ No newline at end of file
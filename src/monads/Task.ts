@@ -0,0 +1,389 @@
+import { io, IO } from './IO';
+import { AsyncResult, Err, intoAsyncResult, isErr, isOk, Ok, Result } from './Result';
+import { retrying } from './Retry';
+
+/**
+ * The error a {@link Task} will produce if it is run with an {@link AbortSignal} that is aborted before it completes.
+ */
+export type TaskAbortedError = { type: 'ABORTED', reason: unknown };
+
+/**
+ * The error a {@link Task} will produce if it does not complete within the duration given to {@link Task#timeout}.
+ */
+export type TaskTimeoutError = { type: 'TIMEOUT', timeout: number };
+
+/**
+ * Determines how long to wait before the given retry attempt, starting from 1 for the first retry.
+ */
+export type Backoff = (attempt: number) => number;
+
+export type RetryPolicy<E> = {
+	/**
+	 * The maximum amount of times the Task will be run, including the first attempt.
+	 */
+	maxAttempts: number,
+
+	/**
+	 * How long to wait between each attempt. Defaults to retrying immediately. See {@link Backoff}.
+	 */
+	backoff?: Backoff,
+
+	/**
+	 * Determines whether the given error should be retried. Defaults to retrying every error.
+	 */
+	shouldRetry?: (error: E, attempt: number) => boolean
+};
+
+/**
+ * Represents an asynchronous function that, when executed, will cause side effects and resolve to a {@link Result}.
+ * Like {@link IO}, nothing will happen until the Task is run, allowing Tasks to be composed, retried and raced freely.
+ *
+ * Every Task is given an {@link AbortSignal} when run, which is passed down to the underlying work so that it can be
+ * cancelled.
+ */
+export type Task<T, E> = {
+	/**
+	 * The function to be executed. NOTE: This is an internal reference, and should never be called outside of library
+	 * code. Use {@link Task#UNSAFE_run} instead to execute this Task.
+	 */
+	_fn: (signal: AbortSignal) => AsyncResult<T, E>,
+
+	/**
+	 * Runs this Task, returning an {@link AsyncResult} of its outcome. This should only be used at the top level of a
+	 * program, as this may cause side effects to be emitted, e.g. networking, filesystem access, etc.
+	 *
+	 * If a signal is given and is aborted before this Task completes, the underlying work will be notified and this
+	 * will resolve to an Err of {@link TaskAbortedError} immediately.
+	 *
+	 * @param signal The signal that can be used to cancel this Task.
+	 */
+	UNSAFE_run: {
+		(): AsyncResult<T, E>,
+		(signal: AbortSignal): AsyncResult<T, E | TaskAbortedError>
+	},
+
+	/**
+	 * Maps the data of this Task if it succeeds, returning a new Task.
+	 *
+	 * @param mapper The mapping function to use.
+	 */
+	map: <U>(mapper: (data: T) => U) => Task<U, E>,
+
+	/**
+	 * Maps the error of this Task if it fails, returning a new Task.
+	 *
+	 * @param mapper The mapping function to use.
+	 */
+	mapErr: <F>(mapper: (error: E) => F) => Task<T, F>,
+
+	/**
+	 * Maps the data of this Task into another Task if it succeeds, allowing for chaining of multiple Tasks together.
+	 *
+	 * @param chainer The function that will be used to generate a new Task.
+	 */
+	andThen: <U, F>(chainer: (data: T) => Task<U, F>) => Task<U, E | F>,
+
+	/**
+	 * Maps the error of this Task into another Task if it fails, allowing for recovery from errors.
+	 *
+	 * @param chainer The function that will be used to generate a new Task.
+	 */
+	orElse: <F>(chainer: (error: E) => Task<T, F>) => Task<T, F>,
+
+	/**
+	 * Returns a new Task that will fail with a {@link TaskTimeoutError} if this Task does not complete within the given
+	 * duration, aborting the underlying work.
+	 *
+	 * @param ms The duration in milliseconds to wait for this Task.
+	 */
+	timeout: (ms: number) => Task<T, E | TaskTimeoutError>,
+
+	/**
+	 * Returns a new Task that will run this Task again if it fails, according to the given policy. The last error is
+	 * returned if every attempt fails.
+	 *
+	 * @example
+	 * fetchUser('1234')
+	 *     .retry({ maxAttempts: 5, backoff: Backoff.exponential({ initial: 100, jitter: true }) })
+	 *     .UNSAFE_run();
+	 *
+	 * @param policy The policy that determines when and how often to retry.
+	 */
+	retry: (policy: RetryPolicy<E>) => Task<T, E>,
+
+	/**
+	 * Converts this Task into an {@link IO} that will run this Task.
+	 */
+	toIO: () => IO<AsyncResult<T, E>>
+};
+
+type AnyResult = { type: 'ok', data: unknown } | { type: 'err', error: unknown };
+type AnyTask = { _fn: (signal: AbortSignal) => PromiseLike<AnyResult> };
+type TaskData<K extends AnyTask> = Awaited<ReturnType<K['_fn']>> extends infer R ? R extends { type: 'ok', data: infer T } ? T : never : never;
+type TaskError<K extends AnyTask> = Awaited<ReturnType<K['_fn']>> extends infer R ? R extends { type: 'err', error: infer E } ? E : never : never;
+
+/**
+ * Returns an {@link AbortController} that will be aborted whenever the given signal is aborted, along with a function
+ * to stop listening to the given signal once the controller is no longer needed.
+ */
+const linkSignal = (signal: AbortSignal) => {
+	const controller = new AbortController();
+	const onAbort = () => controller.abort(signal.reason);
+
+	if (signal.aborted) {
+		onAbort();
+	} else {
+		signal.addEventListener('abort', onAbort);
+	}
+
+	return {
+		controller,
+		unlink: () => signal.removeEventListener('abort', onAbort)
+	};
+};
+
+/**
+ * Returns a Promise that resolves to whether the given delay elapsed without the given signal being aborted.
+ */
+const delay = (ms: number, signal: AbortSignal) => new Promise<boolean>(resolve => {
+	if (signal.aborted) {
+		resolve(false);
+		return;
+	}
+
+	const onAbort = () => {
+		clearTimeout(id);
+		resolve(false);
+	};
+	const id = setTimeout(() => {
+		signal.removeEventListener('abort', onAbort);
+		resolve(true);
+	}, ms);
+
+	signal.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs the given Task function, resolving to an Err of {@link TaskAbortedError} as soon as the given signal is aborted.
+ */
+const runWithSignal = <T, E>(fn: (signal: AbortSignal) => AsyncResult<T, E>, signal?: AbortSignal): AsyncResult<T, E | TaskAbortedError> => {
+	if (!signal) return fn(new AbortController().signal) as AsyncResult<T, E | TaskAbortedError>;
+
+	if (signal.aborted) return Promise.resolve(Err<E | TaskAbortedError, T>({ type: 'ABORTED', reason: signal.reason }));
+
+	return new Promise((resolve, reject) => {
+		const onAbort = () => resolve(Err<E | TaskAbortedError, T>({ type: 'ABORTED', reason: signal.reason }));
+
+		signal.addEventListener('abort', onAbort, { once: true });
+
+		fn(signal)
+			.then(result => resolve(result as Result<T, E | TaskAbortedError>), reject)
+			.finally(() => signal.removeEventListener('abort', onAbort));
+	});
+};
+
+/**
+ * Creates a new Task with the given fn.
+ *
+ * @param fn The function to be run that will produce a side effect, given a signal that notifies of cancellation.
+ */
+export const task = <T, E>(fn: (signal: AbortSignal) => AsyncResult<T, E>): Task<T, E> => ({
+	_fn: fn,
+	UNSAFE_run: ((signal?: AbortSignal) => runWithSignal(fn, signal)) as Task<T, E>['UNSAFE_run'],
+	map<U>(mapper: (data: T) => U) {
+		return task<U, E>(signal => this._fn(signal).then(result =>
+			isOk(result) ? Ok<U, E>(mapper(result.data)) : Err<E, U>(result.error)
+		));
+	},
+	mapErr<F>(mapper: (error: E) => F) {
+		return task<T, F>(signal => this._fn(signal).then(result =>
+			isErr(result) ? Err<F, T>(mapper(result.error)) : Ok<T, F>(result.data)
+		));
+	},
+	andThen<U, F>(chainer: (data: T) => Task<U, F>) {
+		return task<U, E | F>(signal => this._fn(signal).then(result =>
+			isOk(result) ? chainer(result.data)._fn(signal) as AsyncResult<U, E | F> : Err<E | F, U>(result.error)
+		));
+	},
+	orElse<F>(chainer: (error: E) => Task<T, F>) {
+		return task<T, F>(signal => this._fn(signal).then(result =>
+			isErr(result) ? chainer(result.error)._fn(signal) : Ok<T, F>(result.data)
+		));
+	},
+	timeout(ms) {
+		return task<T, E | TaskTimeoutError>(signal => new Promise((resolve, reject) => {
+			const { controller, unlink } = linkSignal(signal);
+			const error: TaskTimeoutError = { type: 'TIMEOUT', timeout: ms };
+			const id = setTimeout(() => {
+				controller.abort(error);
+				resolve(Err<E | TaskTimeoutError, T>(error));
+			}, ms);
+
+			this._fn(controller.signal)
+				.then(result => resolve(result as Result<T, E | TaskTimeoutError>), reject)
+				.finally(() => {
+					clearTimeout(id);
+					unlink();
+				});
+		}));
+	},
+	retry(policy) {
+		return task(retrying(this._fn, policy, delay));
+	},
+	toIO() {
+		return io(() => this.UNSAFE_run());
+	}
+});
+
+/**
+ * Common {@link Backoff} strategies to be used with {@link Task#retry}.
+ */
+export const Backoff = {
+	/**
+	 * Waits the same duration before every retry.
+	 *
+	 * @param ms The duration in milliseconds to wait.
+	 */
+	constant: (ms: number): Backoff => () => ms,
+
+	/**
+	 * Waits an increasing duration before each retry, e.g. 100ms, 200ms, 300ms.
+	 *
+	 * @param ms The duration in milliseconds to increase by each retry.
+	 */
+	linear: (ms: number): Backoff => attempt => ms * attempt,
+
+	/**
+	 * Waits an exponentially increasing duration before each retry, e.g. 100ms, 200ms, 400ms.
+	 *
+	 * @param options.initial The duration in milliseconds to wait before the first retry.
+	 * @param options.factor The factor the duration is multiplied by each retry. Defaults to 2.
+	 * @param options.max The maximum duration in milliseconds to wait. Defaults to no maximum.
+	 * @param options.jitter Whether to randomise each duration between 0 and the calculated duration, preventing many
+	 * clients from retrying at the same time. Defaults to false.
+	 */
+	exponential: (options: { initial: number, factor?: number, max?: number, jitter?: boolean }): Backoff => attempt => {
+		const duration = Math.min(options.initial * Math.pow(options.factor ?? 2, attempt - 1), options.max ?? Infinity);
+
+		return options.jitter ? Math.random() * duration : duration;
+	}
+};
+
+/**
+ * Utilities that create or operate on {@link Task}s as a whole.
+ */
+export const Task = {
+	/**
+	 * Creates a Task that will always succeed with the given data.
+	 *
+	 * @param data The data the Task will succeed with.
+	 */
+	succeed: <T, E = never>(data: T): Task<T, E> => task(() => Promise.resolve(Ok(data))),
+
+	/**
+	 * Creates a Task that will always fail with the given error.
+	 *
+	 * @param error The error the Task will fail with.
+	 */
+	fail: <E, T = never>(error: E): Task<T, E> => task(() => Promise.resolve(Err(error))),
+
+	/**
+	 * Creates a Task that will run the given {@link IO}, succeeding with its return value or failing with the error it
+	 * throws. Use {@link Task#mapErr} to narrow the error once it has been checked.
+	 *
+	 * @param effect The IO to be run.
+	 */
+	fromIO: <T>(effect: IO<T>): Task<T, unknown> => task(() => Promise.resolve(effect.attempt().UNSAFE_run())),
+
+	/**
+	 * Creates a Task from the given function returning a Promise, succeeding with its resolved value or failing with
+	 * its rejection. The function will be called each time the Task is run.
+	 *
+	 * @param fn The function that will create the Promise, given a signal that notifies of cancellation.
+	 */
+	fromPromise: <T, E = unknown>(fn: (signal: AbortSignal) => Promise<T>): Task<T, E> =>
+		task(signal => intoAsyncResult<T, E>(fn(signal))),
+
+	/**
+	 * Creates a Task from the given function returning an {@link AsyncResult}. The function will be called each time
+	 * the Task is run.
+	 *
+	 * @param fn The function that will create the AsyncResult, given a signal that notifies of cancellation.
+	 */
+	fromAsyncResult: <T, E>(fn: (signal: AbortSignal) => AsyncResult<T, E>): Task<T, E> => task(fn),
+
+	/**
+	 * Runs every given Task concurrently, completing with the outcome of whichever completes first. Every other Task
+	 * is then aborted.
+	 *
+	 * @param tasks The Tasks to be raced, of which there must be at least one.
+	 */
+	race: <K extends readonly [AnyTask, ...AnyTask[]]>(tasks: readonly [...K]): Task<TaskData<K[number]>, TaskError<K[number]>> =>
+		task(signal => new Promise((resolve, reject) => {
+			const { controller, unlink } = linkSignal(signal);
+			const settle = (result: AnyResult) => {
+				controller.abort();
+				unlink();
+				resolve(result as Result<TaskData<K[number]>, TaskError<K[number]>>);
+			};
+
+			tasks.forEach(current => current._fn(controller.signal).then(settle, reject));
+		})),
+
+	/**
+	 * Runs every given Task concurrently, succeeding with the data of every Task, in order, if they all succeed.
+	 * Otherwise, the first error is returned and every other Task is aborted.
+	 *
+	 * @param tasks The Tasks to be run.
+	 * @param options.concurrency The maximum amount of Tasks that will be run at once. Defaults to no limit.
+	 */
+	parallel: <K extends readonly AnyTask[]>(tasks: readonly [...K], options: { concurrency?: number } = {}): Task<{ -readonly [I in keyof K]: TaskData<K[I]> }, TaskError<K[number]>> =>
+		task(signal => new Promise((resolve, reject) => {
+			const { controller, unlink } = linkSignal(signal);
+			const data: unknown[] = new Array(tasks.length);
+			const concurrency = Math.max(1, options.concurrency ?? tasks.length);
+			let next = 0;
+			let remaining = tasks.length;
+			let settled = false;
+
+			const settle = (result: AnyResult) => {
+				settled = true;
+				unlink();
+				resolve(result as Result<{ -readonly [I in keyof K]: TaskData<K[I]> }, TaskError<K[number]>>);
+			};
+
+			const runNext = (): void => {
+				const index = next++;
+				const current = tasks[index];
+
+				if (settled || !current) return;
+
+				current._fn(controller.signal).then(result => {
+					if (settled) return;
+
+					if (result.type === 'err') {
+						controller.abort();
+						settle(result);
+						return;
+					}
+
+					data[index] = result.data;
+
+					if (--remaining === 0) {
+						settle(Ok(data));
+					} else {
+						runNext();
+					}
+				}, reject);
+			};
+
+			if (remaining === 0) {
+				settle(Ok(data));
+				return;
+			}
+
+			for (let i = 0; i < Math.min(concurrency, tasks.length); i++) {
+				runNext();
+			}
+		}))
+};
@@ -0,0 +1,283 @@
+import { Err, isOk, Ok, Result } from './Result';
+import type { NonEmptyArray } from '../types';
+
+type ValidationHelpers<T, E> = {
+	/**
+	 * Returns whether this Validation is Valid.
+	 */
+	isValid: () => boolean,
+
+	/**
+	 * Returns whether this Validation is Invalid.
+	 */
+	isInvalid: () => boolean,
+
+	/**
+	 * Maps this Validation's data if this is Valid, otherwise does nothing and returns this Validation.
+	 *
+	 * @param mapper A mapping function that will map this Validation's data if this is Valid.
+	 */
+	map: <U>(mapper: (data: T) => U) => Validation<U, E>,
+
+	/**
+	 * Maps every error of this Validation if this is Invalid, otherwise does nothing and returns this Validation.
+	 *
+	 * @param mapper A mapping function that will be called with each error if this is Invalid.
+	 */
+	mapErr: <U>(mapper: (error: E) => U) => Validation<T, U>,
+
+	/**
+	 * Maps this Validation's data into a new Validation if this is Valid, otherwise does nothing and returns this
+	 * Validation.
+	 *
+	 * NOTE: Like {@link Result#andThen}, this cannot accumulate errors, as the next Validation depends on this
+	 * Validation's data. Use {@link Validation#zip} or {@link Validation.combine} to accumulate errors.
+	 *
+	 * @param chainer A function that will map this Validation's data into a new Validation if this is Valid.
+	 */
+	andThen: <U>(chainer: (data: T) => Validation<U, E>) => Validation<U, E>,
+
+	/**
+	 * Pairs this Validation's data with the data of the given Validation if both are Valid. Otherwise, the errors of
+	 * both Validations are accumulated into a single Invalid.
+	 *
+	 * @param other The Validation to be paired with.
+	 */
+	zip: <U, F>(other: Validation<U, F>) => Validation<[T, U], E | F>,
+
+	/**
+	 * Returns this Validation's data if this is Valid, OTHERWISE THROWS AN ERROR.
+	 *
+	 * NOTE: This is an escape hatch for imperative code; be sure to check that this is Valid before calling this!
+	 */
+	unwrap: () => T,
+
+	/**
+	 * Returns this Validation's errors if this is Invalid, OTHERWISE THROWS AN ERROR.
+	 *
+	 * NOTE: This is an escape hatch for imperative code; be sure to check that this is Invalid before calling this!
+	 */
+	unwrapErrors: () => NonEmptyArray<E>,
+
+	/**
+	 * Runs the given function if this is Valid, otherwise does nothing and returns this Validation.
+	 *
+	 * @param fn The function to be run.
+	 */
+	inspect: (fn: (data: T) => void) => Validation<T, E>,
+
+	/**
+	 * Runs the given function if this is Invalid, otherwise does nothing and returns this Validation.
+	 *
+	 * @param fn The function to be run.
+	 */
+	inspectErrors: (fn: (errors: NonEmptyArray<E>) => void) => Validation<T, E>,
+
+	/**
+	 * Converts this Validation into a {@link Result}, with every error kept in the Err.
+	 */
+	toResult: () => Result<T, NonEmptyArray<E>>,
+
+	caseOf: <U>(cases: { Valid: (data: T) => U, Invalid: (errors: NonEmptyArray<E>) => U }) => U
+};
+
+/**
+ * Represents the outcome of validating a value, containing either the valid value or every error that was found. Unlike
+ * {@link Result}, which stops at the first error, Validations can be combined to accumulate all of their errors, which
+ * is useful for situations such as validating forms or configuration.
+ */
+export type Validation<T, E> = ({ type: 'valid', data: T } | { type: 'invalid', errors: NonEmptyArray<E> }) & ValidationHelpers<T, E>;
+
+/**
+ * Returns whether the given {@link Validation} is Valid, and provides type narrowing. This may be preferable over
+ * {@link Validation#isValid}.
+ *
+ * @param validation The Validation to be checked.
+ */
+export const isValid = <T, E>(validation: Validation<T, E>): validation is Validation<T, E> & { type: 'valid', data: T } => {
+	return validation.type === 'valid';
+};
+
+/**
+ * Returns whether the given {@link Validation} is Invalid, and provides type narrowing. This may be preferable over
+ * {@link Validation#isInvalid}.
+ *
+ * @param validation The Validation to be checked.
+ */
+export const isInvalid = <T, E>(validation: Validation<T, E>): validation is Validation<T, E> & { type: 'invalid', errors: NonEmptyArray<E> } => {
+	return validation.type === 'invalid';
+};
+
+const createValidation = <T, E>(obj: { type: 'valid', data: T } | { type: 'invalid', errors: NonEmptyArray<E> }): Validation<T, E> => ({
+	...obj,
+	isValid() {
+		return isValid(this);
+	},
+	isInvalid() {
+		return isInvalid(this);
+	},
+	map<U>(mapper: (data: T) => U) {
+		return isValid(this) ? Valid(mapper(this.data)) : this as unknown as Validation<U, E>;
+	},
+	mapErr<U>(mapper: (error: E) => U) {
+		if (isValid(this)) return this as unknown as Validation<T, U>;
+
+		const [first, ...rest] = this.errors;
+
+		return Invalid(mapper(first), ...rest.map(mapper));
+	},
+	andThen<U>(chainer: (data: T) => Validation<U, E>) {
+		return isValid(this) ? chainer(this.data) : this as unknown as Validation<U, E>;
+	},
+	zip<U, F>(other: Validation<U, F>) {
+		return Validation.combine([this, other]) as Validation<[T, U], E | F>;
+	},
+	unwrap() {
+		if (isValid(this)) return this.data;
+
+		throw new Error('Attempted to unwrap data of Invalid!');
+	},
+	unwrapErrors() {
+		if (isInvalid(this)) return this.errors;
+
+		throw new Error('Attempted to unwrap errors of Valid!');
+	},
+	inspect(fn: (data: T) => void) {
+		if (isValid(this)) {
+			fn(this.data);
+		}
+
+		return this;
+	},
+	inspectErrors(fn: (errors: NonEmptyArray<E>) => void) {
+		if (isInvalid(this)) {
+			fn(this.errors);
+		}
+
+		return this;
+	},
+	toResult() {
+		return isValid(this) ? Ok<T, NonEmptyArray<E>>(this.data) : Err<NonEmptyArray<E>, T>(this.errors);
+	},
+	caseOf<U>(cases: { Valid: (data: T) => U, Invalid: (errors: NonEmptyArray<E>) => U }): U {
+		return isValid(this) ? cases.Valid(this.data) : cases.Invalid(this.errors);
+	}
+});
+
+/**
+ * Creates a Valid, a successful {@link Validation} that will contain the given data.
+ *
+ * @param data The data to be stored in this Valid.
+ */
+export const Valid = <T, E = never>(data: T) => createValidation<T, E>({ type: 'valid', data });
+
+/**
+ * Creates an Invalid, an unsuccessful {@link Validation} that will contain the given errors.
+ *
+ * @param error The first error to be stored in this Invalid.
+ * @param errors Any further errors to be stored in this Invalid.
+ */
+export const Invalid = <E, T = never>(error: E, ...errors: E[]) => createValidation<T, E>({ type: 'invalid', errors: [error, ...errors] });
+
+type ValidData<V> = V extends { type: 'valid', data: infer T } ? T : never;
+type InvalidError<V> = V extends { type: 'invalid', errors: NonEmptyArray<infer E> } ? E : never;
+type AnyValidation = { type: 'valid', data: unknown } | { type: 'invalid', errors: NonEmptyArray<unknown> };
+
+type CombinedData<V extends readonly AnyValidation[]> = { -readonly [K in keyof V]: ValidData<V[K]> };
+
+const combineValidations = <V extends readonly AnyValidation[]>(validations: readonly [...V]): Validation<CombinedData<V>, InvalidError<V[number]>> => {
+	const data: unknown[] = [];
+	const errors: unknown[] = [];
+
+	for (const validation of validations) {
+		if (validation.type === 'valid') {
+			data.push(validation.data);
+		} else {
+			errors.push(...validation.errors);
+		}
+	}
+
+	const [first, ...rest] = errors as InvalidError<V[number]>[];
+
+	return errors.length === 0
+		? Valid(data as CombinedData<V>)
+		: Invalid(first as InvalidError<V[number]>, ...rest);
+};
+
+/**
+ * Utilities that operate on {@link Validation}s as a whole.
+ */
+export const Validation = {
+	/**
+	 * Combines the given Validations into a single Validation containing the data of every Validation, in order, if
+	 * they are all Valid. Otherwise, every error from every Invalid is accumulated, in order, into a single Invalid.
+	 * Tuples retain the type of each element.
+	 *
+	 * @example
+	 * Validation.combine([Valid(1), Invalid('a'), Invalid('b', 'c')]); // Invalid('a', 'b', 'c')
+	 *
+	 * @param validations The Validations to be combined.
+	 */
+	combine: combineValidations,
+
+	/**
+	 * Combines an object of Validations like {@link Validation.combine}, producing an object of the data of every
+	 * Validation if they are all Valid.
+	 *
+	 * @param validations The object of Validations to be combined.
+	 */
+	combineObject: <V extends Record<string, AnyValidation>>(validations: V): Validation<{ [K in keyof V]: ValidData<V[K]> }, InvalidError<V[keyof V]>> => {
+		const keys = Object.keys(validations);
+
+		return combineValidations(keys.map(key => validations[key] as AnyValidation)).map(values => {
+			const data: Record<string, unknown> = {};
+			keys.forEach((key, index) => data[key] = values[index]);
+
+			return data as { [K in keyof V]: ValidData<V[K]> };
+		}) as Validation<{ [K in keyof V]: ValidData<V[K]> }, InvalidError<V[keyof V]>>;
+	},
+
+	/**
+	 * Maps the data of the given Validations with the given function if they are all Valid, otherwise accumulating
+	 * every error like {@link Validation.combine}.
+	 *
+	 * @example
+	 * Validation.mapN([validateName(name), validateAge(age)], (name, age) => ({ name, age }));
+	 *
+	 * @param validations The Validations to be combined.
+	 * @param mapper The function that will be called with the data of every Validation.
+	 */
+	mapN: <V extends readonly AnyValidation[], U>(validations: readonly [...V], mapper: (...data: CombinedData<V>) => U): Validation<U, InvalidError<V[number]>> =>
+		combineValidations(validations).map(data => mapper(...data)),
+
+	/**
+	 * Maps the data of two Validations with the given function if they are both Valid, otherwise accumulating every
+	 * error. See {@link Validation.mapN}.
+	 *
+	 * @param first The first Validation.
+	 * @param second The second Validation.
+	 * @param mapper The function that will be called with the data of both Validations.
+	 */
+	map2: <A, B, E, F, U>(first: Validation<A, E>, second: Validation<B, F>, mapper: (a: A, b: B) => U): Validation<U, E | F> =>
+		Validation.mapN([first, second], mapper) as Validation<U, E | F>,
+
+	/**
+	 * Maps the data of three Validations with the given function if they are all Valid, otherwise accumulating every
+	 * error. See {@link Validation.mapN}.
+	 *
+	 * @param first The first Validation.
+	 * @param second The second Validation.
+	 * @param third The third Validation.
+	 * @param mapper The function that will be called with the data of every Validation.
+	 */
+	map3: <A, B, C, E, F, G, U>(first: Validation<A, E>, second: Validation<B, F>, third: Validation<C, G>, mapper: (a: A, b: B, c: C) => U): Validation<U, E | F | G> =>
+		Validation.mapN([first, second, third], mapper) as Validation<U, E | F | G>,
+
+	/**
+	 * Converts the given {@link Result} into a Validation, where an Err becomes an Invalid containing its error.
+	 *
+	 * @param result The Result to be converted.
+	 */
+	fromResult: <T, E>(result: Result<T, E>): Validation<T, E> =>
+		isOk(result) ? Valid(result.data) : Invalid(result.error)
+};
@@ -1,3 +1,6 @@
 export * from "./IO";
 export * from "./Option";
-export * from "./Result";
\ No newline at end of file
+export * from "./Result";
+export * from "./Stream";
+export * from "./Task";
+export * from "./Validation";
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { existsSync, promises as fs, readFileSync, writeFileSync } from 'fs';
+import { AsyncStorageBackend, createMemoryBackend, StorageBackend } from '../modules/StorageBackend';
+import { Err, Ok, task, Task } from '../monads';
+
+const toError = (error: unknown) => error instanceof Error ? error : new Error(String(error));
+
+const parseFileContents = (contents: string): Record<string, string> => {
+	const json: unknown = JSON.parse(contents);
+
+	if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+		throw new Error('Expected storage file to contain a JSON object!');
+	}
+
+	const values: Record<string, string> = {};
+
+	Object.keys(json).forEach(key => {
+		const value = (json as Record<string, unknown>)[key];
+
+		if (typeof value === 'string') {
+			values[key] = value;
+		}
+	});
+
+	return values;
+};
+
+/**
+ * Returns a {@link StorageBackend} that stores every value in a JSON file at the given path, reading and writing the
+ * file synchronously. The file will be created on the first change if it does not exist.
+ *
+ * THIS WILL THROW AN ERROR if the file exists but does not contain a JSON object.
+ *
+ * @param path The path of the JSON file.
+ */
+export const createJSONFileBackend = (path: string): StorageBackend => {
+	const read = () => existsSync(path) ? parseFileContents(readFileSync(path, 'utf8')) : {};
+	const write = (values: Record<string, string>) => writeFileSync(path, JSON.stringify(values));
+
+	return {
+		getItem: key => read()[key] ?? null,
+		setItem: (key, value) => write({ ...read(), [key]: value }),
+		removeItem: key => {
+			const values = read();
+			delete values[key];
+			write(values);
+		},
+		keys: () => Object.keys(read())
+	};
+};
+
+/**
+ * Returns a Task that will read the JSON file at the given path, resolving to an {@link AsyncStorageBackend} that
+ * serves values from memory and persists every change to the file in the background. Use
+ * {@link AsyncStorageBackend#flush} to wait for changes to be persisted.
+ *
+ * @param path The path of the JSON file.
+ */
+export const createAsyncJSONFileBackend = (path: string): Task<AsyncStorageBackend, Error> => task(() =>
+	fs.readFile(path, 'utf8')
+		.then(
+			contents => parseFileContents(contents),
+			(error: NodeJS.ErrnoException) => {
+				if (error.code === 'ENOENT') return {};
+
+				throw error;
+			}
+		)
+		.then(initial => {
+			const memory = createMemoryBackend(initial);
+			let writing: Promise<void> = Promise.resolve();
+			let isScheduled = false;
+			let failure: Error | undefined;
+
+			// Changes made while a write is scheduled are persisted by that write, so at most one write is queued.
+			const schedule = () => {
+				if (isScheduled) return;
+
+				isScheduled = true;
+				writing = writing.then(() => {
+					isScheduled = false;
+					const values: Record<string, string> = {};
+					memory.keys().forEach(key => values[key] = memory.getItem(key) as string);
+
+					return fs.writeFile(path, JSON.stringify(values));
+				}).catch(error => {
+					failure = failure ?? toError(error);
+				});
+			};
+
+			return Ok<AsyncStorageBackend, Error>({
+				getItem: memory.getItem,
+				setItem: (key, value) => {
+					memory.setItem(key, value);
+					schedule();
+				},
+				removeItem: key => {
+					memory.removeItem(key);
+					schedule();
+				},
+				keys: memory.keys,
+				flush: () => task(() => writing.then(() => {
+					const error = failure;
+					failure = undefined;
+
+					return error ? Err<Error, void>(error) : Ok<void, Error>(undefined);
+				}))
+			});
+		})
+		.catch(error => Err<Error, AsyncStorageBackend>(toError(error)))
+);
\ No newline at end of file
@@ -0,0 +1 @@
+export * from "./JSONFileBackend";
\ No newline at end of file
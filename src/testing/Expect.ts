@@ -0,0 +1,178 @@
+import { SafeArray, SafeMap, SafeSet, structuralEquals } from '../datastructures';
+import { Err, isOption, isResult, Ok, Option, Result, Some } from '../monads';
+
+const INDENT = '  ';
+
+const isIdentifier = (key: string) => /^[A-Za-z_$][\w$]*$/.test(key);
+
+// The library's collections are object literals, so they are recognised by their internal fields instead.
+const isSafeArray = (value: object): value is SafeArray<unknown> => '_array' in value;
+const isSafeMap = (value: object): value is SafeMap<unknown, unknown> => '_trie' in value && 'get' in value;
+const isSafeSet = (value: object): value is SafeSet<unknown> => '_trie' in value && !('get' in value);
+
+const formatEntries = (open: string, entries: string[], close: string, indent: string) =>
+	entries.length === 0
+		? `${open}${close}`
+		: `${open}\n${entries.map(entry => indent + INDENT + entry).join(',\n')}\n${indent}${close}`;
+
+/**
+ * Formats the given value over multiple lines, so that two values can be compared line by line.
+ */
+const format = (value: unknown, indent = '', ancestors: object[] = []): string => {
+	switch (typeof value) {
+		case 'string':
+			return JSON.stringify(value);
+		case 'number':
+			return Object.is(value, -0) ? '-0' : String(value);
+		case 'bigint':
+			return `${value}n`;
+		case 'function':
+			return `[Function ${value.name || '(anonymous)'}]`;
+		case 'object':
+			break;
+		default:
+			return String(value);
+	}
+
+	if (value === null) return 'null';
+	if (ancestors.indexOf(value) !== -1) return '[Circular]';
+
+	const nested = ancestors.concat([value]);
+	const formatNested = (inner: unknown) => format(inner, indent + INDENT, nested);
+
+	if (isOption(value)) return value.caseOf({ Some: data => `Some(${format(data, indent, nested)})`, None: () => 'None' });
+	if (isResult(value)) return value.caseOf({ Ok: data => `Ok(${format(data, indent, nested)})`, Err: error => `Err(${format(error, indent, nested)})` });
+	if (value instanceof Error) return `[${value.name}: ${value.message}]`;
+	if (value instanceof Date) return `Date(${value.toISOString()})`;
+	if (Array.isArray(value)) return formatEntries('[', value.map(formatNested), ']', indent);
+
+	if (value instanceof Map) {
+		return formatEntries('Map {', Array.from(value).map(([key, inner]) => `${formatNested(key)} => ${formatNested(inner)}`), '}', indent);
+	}
+
+	if (value instanceof Set) return formatEntries('Set {', Array.from(value).map(formatNested), '}', indent);
+	if (isSafeArray(value)) return formatEntries('SafeArray [', value.toArray().map(formatNested), ']', indent);
+
+	if (isSafeMap(value)) {
+		return formatEntries('SafeMap {', value.toArray().map(([key, inner]) => `${formatNested(key)} => ${formatNested(inner)}`), '}', indent);
+	}
+
+	if (isSafeSet(value)) return formatEntries('SafeSet {', value.toArray().map(formatNested), '}', indent);
+
+	const prototype = Object.getPrototypeOf(value);
+	const name = prototype === Object.prototype || prototype === null ? '' : `${prototype.constructor?.name ?? 'Object'} `;
+	const record = value as Record<string, unknown>;
+
+	return formatEntries(`${name}{`, Object.keys(record).map(key => `${isIdentifier(key) ? key : JSON.stringify(key)}: ${formatNested(record[key])}`), '}', indent);
+};
+
+type DiffLine = { sign: ' ' | '-' | '+', line: string };
+
+/**
+ * Returns a line by line diff of the given strings, based on their longest common subsequence of lines.
+ */
+const diffLines = (expected: string, received: string): DiffLine[] => {
+	const a = expected.split('\n');
+	const b = received.split('\n');
+
+	// lengths[i][j] is the length of the longest common subsequence of a[i..] and b[j..].
+	const lengths = a.map(() => b.map(() => 0).concat([0])).concat([b.map(() => 0).concat([0])]);
+	const lengthAt = (i: number, j: number) => lengths[i]?.[j] ?? 0;
+
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			(lengths[i] as number[])[j] = a[i] === b[j] ? lengthAt(i + 1, j + 1) + 1 : Math.max(lengthAt(i + 1, j), lengthAt(i, j + 1));
+		}
+	}
+
+	const lines: DiffLine[] = [];
+	let i = 0;
+	let j = 0;
+
+	while (i < a.length || j < b.length) {
+		if (i < a.length && j < b.length && a[i] === b[j]) {
+			lines.push({ sign: ' ', line: a[i++] as string });
+			j++;
+		} else if (i < a.length && (j >= b.length || lengthAt(i + 1, j) >= lengthAt(i, j + 1))) {
+			lines.push({ sign: '-', line: a[i++] as string });
+		} else {
+			lines.push({ sign: '+', line: b[j++] as string });
+		}
+	}
+
+	return lines;
+};
+
+const fail = (message: string): never => {
+	throw Object.assign(new Error(message), { name: 'AssertionError' });
+};
+
+const assertEqual = (expected: unknown, received: unknown) => {
+	if (structuralEquals(expected, received)) return;
+
+	const diff = diffLines(format(expected), format(received))
+		.map(({ sign, line }) => `${sign} ${line}`)
+		.join('\n');
+
+	fail(`Expected values to be structurally equal:\n\n- Expected\n+ Received\n\n${diff}`);
+};
+
+/**
+ * Asserts that the given Result is an Ok, returning its data. If expected data is given, the data must also be
+ * structurally equal to it; see {@link structuralEquals}. THIS WILL THROW AN ERROR otherwise, describing the
+ * difference.
+ *
+ * @example
+ * expectOk(parseJSON('{"a":1}'), { a: 1 });
+ *
+ * @param result The Result to be checked.
+ * @param expected The data the Result is expected to contain.
+ */
+export const expectOk = <T, E>(result: Result<T, E>, ...expected: [T] | []): T => {
+	if (expected.length === 1) {
+		assertEqual(Ok(expected[0]), result);
+	}
+
+	return result.caseOf({ Ok: data => data, Err: () => fail(`Expected an Ok, but received ${format(result)}`) });
+};
+
+/**
+ * Asserts that the given Result is an Err, returning its error. If an expected error is given, the error must also
+ * be structurally equal to it. THIS WILL THROW AN ERROR otherwise, describing the difference.
+ *
+ * @param result The Result to be checked.
+ * @param expected The error the Result is expected to contain.
+ */
+export const expectErr = <T, E>(result: Result<T, E>, ...expected: [E] | []): E => {
+	if (expected.length === 1) {
+		assertEqual(Err(expected[0]), result);
+	}
+
+	return result.caseOf({ Ok: () => fail(`Expected an Err, but received ${format(result)}`), Err: error => error });
+};
+
+/**
+ * Asserts that the given Option is a Some, returning its data. If expected data is given, the data must also be
+ * structurally equal to it. THIS WILL THROW AN ERROR otherwise, describing the difference.
+ *
+ * @param option The Option to be checked.
+ * @param expected The data the Option is expected to contain.
+ */
+export const expectSome = <T>(option: Option<T>, ...expected: [T] | []): T => {
+	if (expected.length === 1) {
+		assertEqual(Some(expected[0]), option);
+	}
+
+	return option.caseOf({ Some: data => data, None: () => fail('Expected a Some, but received None') });
+};
+
+/**
+ * Asserts that the given Option is None. THIS WILL THROW AN ERROR otherwise, describing the data it contains.
+ *
+ * @param option The Option to be checked.
+ */
+export const expectNone = <T>(option: Option<T>): void => {
+	if (option.isSome()) {
+		fail(`Expected None, but received ${format(option)}`);
+	}
+};
\ No newline at end of file
@@ -0,0 +1,50 @@
+export type MemoryStorageOptions = {
+	/**
+	 * Any values the Storage should start with.
+	 */
+	initial?: Record<string, string>,
+
+	/**
+	 * The maximum total size of every key and value, measured in UTF-16 code units like {@link localStorage}. Assigning
+	 * an item that would exceed this throws a QuotaExceededError, as browsers do. Unlimited by default.
+	 */
+	quota?: number
+};
+
+/**
+ * Creates an in-memory {@link Storage}, e.g. to exercise {@link getSafeStorage} without a browser. Keys are ordered by
+ * when they were first assigned.
+ *
+ * @example
+ * const storage = createMemoryStorage({ quota: 100 });
+ * const safeStorage = getSafeStorage(storage)({ theme: z.string() });
+ *
+ * @param options The values and quota of the Storage.
+ */
+export const createMemoryStorage = (options: MemoryStorageOptions = {}): Storage => {
+	const { initial = {}, quota = Infinity } = options;
+	const values = new Map(Object.keys(initial).map(key => [key, initial[key] as string]));
+
+	const sizeWith = (key: string, value: string) => Array.from(values.keys())
+		.filter(existing => existing !== key)
+		.reduce((size, existing) => size + existing.length + (values.get(existing) as string).length, key.length + value.length);
+
+	return {
+		get length() {
+			return values.size;
+		},
+		key: index => Array.from(values.keys())[index] ?? null,
+		getItem: key => values.get(key) ?? null,
+		setItem: (key, value) => {
+			if (sizeWith(key, value) > quota) {
+				throw Object.assign(new Error(`Exceeded the quota of ${quota} while assigning '${key}'!`), { name: 'QuotaExceededError' });
+			}
+
+			values.set(key, value);
+		},
+		removeItem: key => {
+			values.delete(key);
+		},
+		clear: () => values.clear()
+	};
+};
\ No newline at end of file
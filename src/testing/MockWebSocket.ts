@@ -0,0 +1,204 @@
+import { intoOption, Option } from '../monads';
+
+/**
+ * The close code used when a connection closes without a close frame, such as when it fails.
+ */
+const ABNORMAL_CLOSURE = 1006;
+
+/**
+ * An in-memory {@link WebSocket} whose server side is scripted by the test, e.g. to exercise
+ * {@link createSafeWebSocket} without a real server. Every event is dispatched synchronously.
+ */
+export type MockWebSocket = WebSocket & {
+	/**
+	 * Returns every frame sent through this socket while it was open, in order.
+	 */
+	sent: () => string[],
+
+	/**
+	 * Completes the connection, dispatching the open event.
+	 */
+	open: () => void,
+
+	/**
+	 * Dispatches a message event whose data is the given message serialised as JSON.
+	 *
+	 * @param message The message to be received.
+	 */
+	receive: (message: unknown) => void,
+
+	/**
+	 * Dispatches a message event with the given data as is, e.g. to send a malformed frame.
+	 *
+	 * @param data The data to be received.
+	 */
+	receiveRaw: (data: string) => void,
+
+	/**
+	 * Fails the connection like a browser would, dispatching the error event and then a close event with the code
+	 * 1006.
+	 */
+	fail: () => void,
+
+	/**
+	 * Closes the connection from the server side, dispatching the close event.
+	 *
+	 * @param code The close code. Defaults to 1000.
+	 * @param reason The close reason. Defaults to an empty string.
+	 */
+	serverClose: (code?: number, reason?: string) => void
+};
+
+/**
+ * Creates every {@link MockWebSocket} for a {@link SafeWebSocketConfig}, allowing each connection attempt to be
+ * scripted, including reconnections.
+ */
+export type MockWebSocketFactory = {
+	/**
+	 * Creates a new MockWebSocket; pass this as {@link SafeWebSocketConfig#createWebSocket}.
+	 *
+	 * @param url The url of the socket.
+	 */
+	createWebSocket: (url: string) => WebSocket,
+
+	/**
+	 * Returns every MockWebSocket created so far, in order.
+	 */
+	sockets: () => MockWebSocket[],
+
+	/**
+	 * Returns the most recently created MockWebSocket, if any.
+	 */
+	latest: () => Option<MockWebSocket>
+};
+
+const createEvent = <E extends Event>(type: string, properties: object = {}) => Object.assign(new Event(type), properties) as E;
+
+class InMemoryWebSocket extends EventTarget {
+	readonly CONNECTING = 0;
+	readonly OPEN = 1;
+	readonly CLOSING = 2;
+	readonly CLOSED = 3;
+
+	binaryType: BinaryType = 'blob';
+	readonly bufferedAmount = 0;
+	readonly extensions = '';
+	readonly protocol = '';
+	readyState: number = this.CONNECTING;
+
+	onopen: ((this: WebSocket, event: Event) => unknown) | null = null;
+	onmessage: ((this: WebSocket, event: MessageEvent) => unknown) | null = null;
+	onerror: ((this: WebSocket, event: Event) => unknown) | null = null;
+	onclose: ((this: WebSocket, event: CloseEvent) => unknown) | null = null;
+
+	private readonly frames: string[] = [];
+
+	constructor(readonly url: string) {
+		super();
+	}
+
+	sent() {
+		return this.frames.slice();
+	}
+
+	send(data: string | ArrayBufferLike | Blob | ArrayBufferView) {
+		if (this.readyState === this.CONNECTING) {
+			throw Object.assign(new Error('Attempted to send data before the MockWebSocket was opened!'), { name: 'InvalidStateError' });
+		}
+
+		// Like a real WebSocket, data sent once the socket is closing is silently discarded.
+		if (this.readyState === this.OPEN) {
+			this.frames.push(String(data));
+		}
+	}
+
+	close(code = 1000, reason = '') {
+		if (this.readyState === this.CLOSING || this.readyState === this.CLOSED) return;
+
+		this.readyState = this.CLOSING;
+		this.finish(code, reason, true);
+	}
+
+	open() {
+		if (this.readyState !== this.CONNECTING) {
+			throw new Error('Attempted to open a MockWebSocket that is not connecting!');
+		}
+
+		this.readyState = this.OPEN;
+		this.emit(createEvent('open'), this.onopen);
+	}
+
+	receive(message: unknown) {
+		this.receiveRaw(JSON.stringify(message));
+	}
+
+	receiveRaw(data: string) {
+		if (this.readyState !== this.OPEN) {
+			throw new Error('Attempted to receive a message on a MockWebSocket that is not open!');
+		}
+
+		this.emit(createEvent<MessageEvent>('message', { data }), this.onmessage);
+	}
+
+	fail() {
+		if (this.readyState === this.CLOSED) return;
+
+		this.emit(createEvent('error'), this.onerror);
+		this.finish(ABNORMAL_CLOSURE, '', false);
+	}
+
+	serverClose(code = 1000, reason = '') {
+		if (this.readyState === this.CLOSED) return;
+
+		this.finish(code, reason, true);
+	}
+
+	private finish(code: number, reason: string, wasClean: boolean) {
+		this.readyState = this.CLOSED;
+		this.emit(createEvent<CloseEvent>('close', { code, reason, wasClean }), this.onclose);
+	}
+
+	private emit<E extends Event>(event: E, handler: ((this: WebSocket, event: E) => unknown) | null) {
+		handler?.call(this as unknown as WebSocket, event);
+		this.dispatchEvent(event);
+	}
+}
+
+/**
+ * Creates a new {@link MockWebSocket}, which starts out connecting.
+ *
+ * @example
+ * const socket = createMockWebSocket('ws://localhost');
+ * const connecting = createSafeWebSocket({ url: socket.url, createWebSocket: () => socket, ... }).UNSAFE_run();
+ *
+ * socket.open();
+ * socket.receive({ type: 'hello' }); // onMessage is called
+ * socket.receiveRaw('{'); // onInvalidMessage is called
+ *
+ * @param url The url of the socket.
+ */
+export const createMockWebSocket = (url: string): MockWebSocket => new InMemoryWebSocket(url) as unknown as MockWebSocket;
+
+/**
+ * Creates a new {@link MockWebSocketFactory}.
+ *
+ * @example
+ * const factory = createMockWebSocketFactory();
+ * createSafeWebSocket({ url, createWebSocket: factory.createWebSocket, reconnect: {}, ... }).UNSAFE_run();
+ *
+ * factory.latest().inspect(socket => socket.open());
+ */
+export const createMockWebSocketFactory = (): MockWebSocketFactory => {
+	const sockets: MockWebSocket[] = [];
+
+	return {
+		createWebSocket: url => {
+			const socket = createMockWebSocket(url);
+			sockets.push(socket);
+
+			return socket;
+		},
+		sockets: () => sockets.slice(),
+		latest: () => intoOption(sockets[sockets.length - 1])
+	};
+};
\ No newline at end of file
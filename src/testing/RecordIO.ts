@@ -0,0 +1,70 @@
+import { IO, Result } from '../monads';
+import { withEffectHandler } from '../monads/EffectHandler';
+
+/**
+ * An effect that was requested while running an {@link IO} with {@link recordIO}.
+ */
+export type RecordedEffect = { name: string, args: unknown[] };
+
+/**
+ * The functions that will be called in place of effects while running an {@link IO} with {@link recordIO}, keyed by
+ * the name of each effect. Each function is called with the arguments of the effect, and returns its result.
+ */
+export type EffectStubs = Record<string, (...args: never[]) => unknown>;
+
+/**
+ * The outcome of running an {@link IO} with {@link recordIO}.
+ */
+export type RecordedIO<T> = {
+	/**
+	 * The return value of the IO, or an Err with whatever it threw.
+	 */
+	result: Result<T, unknown>,
+
+	/**
+	 * Every effect requested by the IO, in order.
+	 */
+	effects: RecordedEffect[]
+};
+
+/**
+ * Runs the given {@link IO}, recording every effect created with {@link effect} instead of performing it. Each effect
+ * returns the result of its stub, or what it would have returned if it has none, e.g. the timer functions of a
+ * {@link SafeWindow} return a clear that does nothing, and {@link SafeWindow#retryWithBackoff} resolves to an Err of
+ * {@link TaskAbortedError} without running the Task.
+ *
+ * The library's own side effects are created with effect, namely:
+ * - writing to a {@link SafeStorage}: `SafeStorage.trySetItem` (which setItem is built on), `SafeStorage.removeItem`,
+ *   `SafeStorage.migrateItem`, `SafeStorage.migrateAll`, `SafeStorage.removeExpired` and `SafeStorage.clear`
+ * - the timers of a {@link SafeWindow}: `SafeWindow.setTimeout`, `SafeWindow.setInterval`,
+ *   `SafeWindow.requestAnimationFrame`, `SafeWindow.sleep`, `SafeWindow.debounce`, `SafeWindow.throttle` and
+ *   `SafeWindow.retryWithBackoff`
+ * - `SafeWebSocket.send` and `SafeWebSocket.close`
+ * - `SafeDOM.addEventListener`, which every DOM listener and event Stream is built on, and `SafeDOM.dispatchEvent`
+ *
+ * NOTE: Every other IO, including those created with {@link io}, is still run for real, as are Tasks and the IOs
+ * returned by clear.
+ *
+ * @example
+ * const saveConfig = effect('saveConfig', (contents: string) => writeFileSync('config.json', contents));
+ * const readConfig = effect('readConfig', () => readFileSync('config.json', 'utf8'));
+ *
+ * const { effects } = recordIO(readConfig().andThen(saveConfig), { readConfig: () => '{}' });
+ * // [{ name: 'readConfig', args: [] }, { name: 'saveConfig', args: ['{}'] }]
+ *
+ * @param program The IO to be run.
+ * @param stubs The functions that will be called in place of each effect.
+ */
+export const recordIO = <T>(program: IO<T>, stubs: EffectStubs = {}): RecordedIO<T> => {
+	const effects: RecordedEffect[] = [];
+
+	const result = withEffectHandler((name, args, _perform, simulate) => {
+		effects.push({ name, args });
+
+		const stub = stubs[name] as ((...args: unknown[]) => unknown) | undefined;
+
+		return stub ? stub(...args) : simulate();
+	}, () => program.attempt().UNSAFE_run());
+
+	return { result, effects };
+};
\ No newline at end of file
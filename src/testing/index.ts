@@ -0,0 +1,4 @@
+export * from "./Expect";
+export * from "./MemoryStorage";
+export * from "./MockWebSocket";
+export * from "./RecordIO";
\ No newline at end of file
@@ -1,3 +1,8 @@
 export type Listener = {
 	removeListener: () => void
-};
\ No newline at end of file
+};
+
+/**
+ * Represents an array that is guaranteed to contain at least one element.
+ */
+export type NonEmptyArray<T> = [T, ...T[]];